@@ -1,29 +1,82 @@
-import { Plugin, MarkdownView } from 'obsidian';
-import { EditorView, ViewPlugin, ViewUpdate, Decoration, DecorationSet, WidgetType } from '@codemirror/view';
-import { RangeSetBuilder } from '@codemirror/state';
+import { Plugin, MarkdownView, type Editor } from 'obsidian';
+import { EditorView, ViewPlugin, ViewUpdate, Decoration, DecorationSet, WidgetType, Direction, layer } from '@codemirror/view';
+import { StateEffect, StateField, type Range, type SelectionRange } from '@codemirror/state';
 import { VisibleCursorPluginSettings, DEFAULT_SETTINGS, VisibleCursorSettingTab } from './settings';
 import { ColorProvider } from './src/services/colorProvider';
-import { FlashScheduler, type FlashState } from './src/services/flashScheduler';
-import { FlashRenderer } from './src/services/flashRenderer';
-import { hexToRgb, adjustColorForThinBar, detectSoftWrapEnd } from './src/utils';
+import { FlashScheduler, type FlashState, type FlashTrigger, type RowLocator } from './src/services/flashScheduler';
+import { FlashRenderer, type FlashMarker, type FlashShape } from './src/services/flashRenderer';
+import { TriggerClassifier } from './src/services/triggerClassifier';
+import { OffscreenIndicator, type OffscreenState } from './src/services/offscreenIndicator';
+import { ScrollbarMarker, type ScrollbarMarkerPlacement } from './src/services/scrollbarMarker';
+import { EditorViewRegistry } from './src/services/viewRegistry';
+import { WindowTracker, type WindowCleanup } from './src/services/windowTracker';
+import { ReadingPositionTracker, READING_VIEW_SELECTOR } from './src/services/readingPosition';
+import { GlyphMetrics, type LineBox } from './src/services/glyphMetrics';
+import { FlashAnimator, type FlashAnimation } from './src/services/flashAnimation';
+import { CaretMarker, CaretLayerSwitch } from './src/services/smoothCaret';
+import { CursorCuesApi, type FlashOptions, type FlashEventInfo } from './src/api';
+import {
+	hexToRgb, adjustColorForThinBar, detectSoftWrapEnd, parseKeyChord, matchesKeyChord, isRepeatMoveKey, getOffscreenDirection,
+	calculateScrollbarMarker, fadeColor, blinkAnimation, fontShorthand, calculateLineHeightFromFontSize, calculateCharacterWidth,
+	calculateHighlightDistance, nextGraphemeBreak, directionAtOffset, resolveHighlightSide,
+	type KeyChord, type CursorPoint
+} from './src/utils';
+
+/** Fonts at a cursor position, for GlyphMetrics lookups */
+interface CursorFont {
+	/** Font of the glyph's element */
+	font: string;
+	/** Font of the line around it */
+	lineFont: string;
+	fontSize: number;
+	zoom: number;
+}
+
+/**
+ * Size and placement of a cursor widget, from the line box and the glyph at the cursor
+ */
+interface CursorBox extends LineBox {
+	/** Width of the block cursor at the end of a line: one character of the font at the cursor */
+	width: number;
+}
+
+/**
+ * What the rendered line tells about one cursor: its box, the line's direction,
+ * and the fonts (as a line box key) they were read from
+ */
+interface CursorLayout {
+	box: CursorBox;
+	direction: 'ltr' | 'rtl';
+	fontKey: string | null;
+}
 
 class EndOfLineWidget extends WidgetType {
 	constructor(
 		private markerColor: string,
 		private contrastColor: string,
-		private style: 'block' | 'bar' = 'block',
-		private lineHeight?: number
+		private style: 'block' | 'bar' | 'hollow' = 'block',
+		private box?: CursorBox,
+		private extraClass: string = '',
+		private direction: 'ltr' | 'rtl' = 'ltr',
+		private animationStyle: string = ''
 	) {
 		super();
 	}
-	toDOM() {
-		const span = document.createElement('span');
+	toDOM(view: EditorView) {
+		const doc = view.dom.ownerDocument;
+		const span = doc.createElement('span');
 		span.setAttribute('aria-hidden', 'true');
 
 		// All cursor widgets use a zero-size (width:0, height:0) wrapper with overflow:visible
 		// so they never affect inline layout or line-box height.  The visible cursor indicator
 		// is an absolutely-positioned child that overflows the wrapper without adding to it.
-		const cssHeight = this.lineHeight ? `${this.lineHeight}px` : '1em';
+		// The wrapper sits at text-bottom; the child drops by the box's descent so that it
+		// covers the whole line box (headings, code and list lines have different ones).
+		const cssHeight = this.box ? `${this.box.height}px` : '1em';
+		const cssWidth = this.box ? `${this.box.width}px` : '0.5em';
+		const cssBottom = this.box ? `${-this.box.descent}px` : '0';
+		// Grow towards the line end: rightwards on LTR lines, leftwards on RTL lines
+		const anchorSide = this.direction === 'rtl' ? 'right' : 'left';
 		span.style.cssText = `
 			display: inline-block;
 			width: 0;
@@ -34,50 +87,128 @@ class EndOfLineWidget extends WidgetType {
 			position: relative;
 			z-index: 1;
 		`;
-		const inner = document.createElement('span');
+		const inner = doc.createElement('span');
 		inner.setAttribute('aria-hidden', 'true');
 		if (this.style === 'bar') {
-			inner.className = 'cursor-flash-bar';
+			inner.className = this.extraClass ? `cursor-flash-bar ${this.extraClass}` : 'cursor-flash-bar';
 			inner.style.cssText = `
 				position: absolute;
-				left: 0;
-				bottom: 0;
+				${anchorSide}: 0;
+				bottom: ${cssBottom};
 				width: 3px;
 				height: ${cssHeight};
 				background-color: ${this.markerColor};
 				pointer-events: none;
 			`;
+		} else if (this.style === 'hollow') {
+			// Outline-only block, used for the ghost cursor in unfocused editors
+			inner.className = this.extraClass ? `cursor-ghost-hollow ${this.extraClass}` : 'cursor-ghost-hollow';
+			inner.style.cssText = `
+				position: absolute;
+				${anchorSide}: 0;
+				bottom: ${cssBottom};
+				width: ${cssWidth};
+				height: ${cssHeight};
+				box-shadow: inset 0 0 0 1.5px ${this.markerColor};
+				pointer-events: none;
+			`;
 		} else {
-			inner.className = 'cursor-flash-block-mark';
+			inner.className = this.extraClass ? `cursor-flash-block-mark ${this.extraClass}` : 'cursor-flash-block-mark';
 			inner.style.cssText = `
 				position: absolute;
-				left: 0;
-				bottom: 0;
-				width: 0.5em;
+				${anchorSide}: 0;
+				bottom: ${cssBottom};
+				width: ${cssWidth};
 				height: ${cssHeight};
 				background-color: ${this.markerColor};
 				color: ${this.contrastColor};
 				pointer-events: none;
 			`;
 		}
+		// Flash effect or blink variables (see FlashAnimator, blinkAnimation)
+		inner.style.cssText += this.animationStyle;
 		span.appendChild(inner);
 		return span;
 	}
+
+	// Keep the drawn widget across unrelated updates, so a blink isn't restarted by them
+	eq(other: EndOfLineWidget) {
+		return other.markerColor === this.markerColor
+			&& other.contrastColor === this.contrastColor
+			&& other.style === this.style
+			&& other.extraClass === this.extraClass
+			&& other.direction === this.direction
+			&& other.animationStyle === this.animationStyle
+			&& other.box?.width === this.box?.width
+			&& other.box?.height === this.box?.height
+			&& other.box?.descent === this.box?.descent;
+	}
+}
+
+/**
+ * Top of the rows on either side of a cursor position, in viewport pixels.
+ * They differ when the position is a soft-wrap boundary.
+ */
+interface WrapGeometry {
+	leftTop: number | null;
+	rightTop: number | null;
+	wraps: boolean;
+}
+
+/** Opacity of secondary cursors when the main cursor is distinguished */
+const SECONDARY_CURSOR_OPACITY = 0.55;
+
+/** A flash running in one editor. Its position is mapped through edits made during the flash. */
+interface LineFlash {
+	id: number;
+	pos: number;
+	/** Previous cursor position, for jump trails */
+	from?: number;
+	mode: FlashShape;
+	duration: number;
+	rgb: { r: number; g: number; b: number };
+	opacity: number;
 }
 
+/** Where the cursor jumped from, for the trail drawn with the flash that follows */
+interface JumpTrail {
+	view: EditorView;
+	from: number;
+}
+
+/** Replace an editor's running flashes (an empty list ends them) */
+const setLineFlashes = StateEffect.define<LineFlash[]>();
+
+/** The flashes running in an editor, drawn by the flash layer */
+const lineFlashField = StateField.define<LineFlash[]>({
+	create: () => [],
+	update(flashes, tr) {
+		for (const effect of tr.effects) {
+			if (effect.is(setLineFlashes)) return effect.value;
+		}
+		if (!tr.docChanged || flashes.length === 0) return flashes;
+		return flashes.map(flash => ({
+			...flash,
+			pos: tr.changes.mapPos(flash.pos),
+			from: flash.from === undefined ? undefined : tr.changes.mapPos(flash.from)
+		}));
+	}
+});
+
 class BarCursorWidget extends WidgetType {
-	constructor(private markerColor: string, private lineHeight: number) {
+	constructor(private markerColor: string, private box: CursorBox) {
 		super();
 	}
-	toDOM() {
+	toDOM(view: EditorView) {
+		const doc = view.dom.ownerDocument;
 		// width:0 + overflow:visible ensures the widget takes no space in the text flow,
 		// which prevents it from displacing characters across soft-wrap boundaries.
-		const span = document.createElement('span');
+		const span = doc.createElement('span');
 		span.className = 'cursor-flash-bar';
 		span.style.cssText = `
 			display: inline-block;
 			width: 0;
-			height: ${this.lineHeight}px;
+			height: ${this.box.height}px;
 			overflow: visible;
 			pointer-events: none;
 			vertical-align: text-bottom;
@@ -85,13 +216,13 @@ class BarCursorWidget extends WidgetType {
 			z-index: 1;
 		`;
 		// The visible cursor is a separate absolutely positioned element
-		const bar = document.createElement('span');
+		const bar = doc.createElement('span');
 		bar.style.cssText = `
 			position: absolute;
 			left: 0;
-			top: 0;
+			top: ${this.box.descent}px;
 			width: 3px;
-			height: ${this.lineHeight}px;
+			height: ${this.box.height}px;
 			background-color: ${this.markerColor};
 			pointer-events: none;
 		`;
@@ -103,43 +234,143 @@ class BarCursorWidget extends WidgetType {
 
 export default class VisibleCursorPlugin extends Plugin {
 	settings: VisibleCursorPluginSettings;
-	private styleElement: HTMLStyleElement | null = null;
+	/** Public API for other plugins; see src/api.ts */
+	api: CursorCuesApi;
+	// Dynamic cursor CSS, injected into every window's document (see attachWindow)
+	private cursorStyleContent: string = '';
+	private cursorStyleElements = new Map<Document, HTMLStyleElement>();
 
 	private lastViewChange: number = 0;
 	private flashTimeout: NodeJS.Timeout | null = null;
 	private resetFlashTimeout: NodeJS.Timeout | null = null;
 	private scrollDebounceTimer: NodeJS.Timeout | null = null;
 	private lastScrollPosition: number = 0;
+	// Global cooldown between flashes; per-editor flash state lives in viewRegistry
 	private flashActive: boolean = false;
-	private decorationView: EditorView | null = null;
-	private clickFenceActive: boolean = false;
-	private pendingFlashTrigger: string | null = null;
+	private viewRegistry = new EditorViewRegistry<EditorView>();
+	// Pointer selections and typing are read from transaction userEvents (see TriggerClassifier)
+	private pointerFenceUntil: number = 0;
+	// Key for the jump distance measurement, so a newer move replaces a pending one
+	private jumpMeasureKey = {};
+	private typingQuietUntil: number = 0;
+	// Set through the public API
+	private flashesSuppressedUntil: number = 0;
+	private lineEndSignalledUntil: number = 0;
+	private nextFlashId: number = 0;
+	private pendingFlashTrigger: FlashTrigger | null = null;
 	private scrollFlashSuppressedUntil: number = 0;
-	private endKeyPressedRecently: boolean = false;
-	private endKeyTimer: NodeJS.Timeout | null = null;
-	private boundStartFence: () => void;
-	private boundEndFenceSoon: () => void;
-	private boundClickEndFence: () => void;
+	private jumpKeyChords: KeyChord[] = [];
+	// Movement key currently held down; `repeated` turns true on the first auto-repeat keydown
+	private heldMoveKey: { key: string; from: CursorPoint; repeated: boolean } | null = null;
 	private boundKeydownCapture: (e: KeyboardEvent) => void;
+	private boundKeyupCapture: (e: KeyboardEvent) => void;
+	// A key held while the window loses focus never sends its keyup
+	private boundReleaseHeldKey: () => void;
+	// Reading view has no CodeMirror scroll handler, so scrolls and clicks are caught per document
+	private boundReadingScroll: (e: Event) => void;
+	private boundReadingPointerDown: (e: PointerEvent) => void;
 
 	// Services
 	private colorProvider: ColorProvider;
 	private flashScheduler: FlashScheduler;
 	private flashRenderer: FlashRenderer;
+	private flashAnimator: FlashAnimator;
+	private caretLayerSwitch: CaretLayerSwitch<EditorView>;
+	private triggerClassifier: TriggerClassifier;
+	private windowTracker: WindowTracker;
+	private readingPosition: ReadingPositionTracker;
+	private glyphMetrics: GlyphMetrics;
+	private scrollbarMarkerPlugin: ReturnType<VisibleCursorPlugin['createScrollbarMarkerPlugin']>;
 
 	async onload() {
 		await this.loadSettings();
+		this.updateJumpKeyChords();
 
 		// Initialize services
 		this.colorProvider = new ColorProvider();
 		this.flashScheduler = new FlashScheduler();
 		this.flashRenderer = new FlashRenderer();
+		this.flashAnimator = new FlashAnimator();
+		this.caretLayerSwitch = new CaretLayerSwitch();
+		this.triggerClassifier = new TriggerClassifier();
+		this.windowTracker = new WindowTracker((win) => this.attachWindow(win));
+		this.readingPosition = new ReadingPositionTracker();
+		this.glyphMetrics = new GlyphMetrics();
+		this.api = new CursorCuesApi(this);
 
 		this.addSettingTab(new VisibleCursorSettingTab(this.app, this));
+		this.registerCommands();
+
+		// Capture-phase keydown listener: fires BEFORE CM6 processes the key, so the
+		// cursor position seen here is where a move starts.  (EditorView.domEventHandlers
+		// fires at bubble phase, after CM6's internal handlers — too late for that.)
+		this.boundKeydownCapture = (e: KeyboardEvent) => {
+			if (this.settings.flashOnJumpKeys && this.isEditorKeyEvent(e)
+				&& this.jumpKeyChords.some(chord => matchesKeyChord(e, chord))) {
+				// scheduleFlash delays the flash until after CM6 has moved the cursor
+				this.scheduleFlash('jump-key', false);
+			}
+
+			if (isRepeatMoveKey(e.key) && this.isEditorKeyEvent(e)) {
+				if (!e.repeat) {
+					// Capture phase runs before CM6 moves the cursor, so this is the start point
+					const from = this.getCursorPoint();
+					this.heldMoveKey = from ? { key: e.key, from, repeated: false } : null;
+				} else if (this.heldMoveKey?.key === e.key) {
+					this.heldMoveKey.repeated = true;
+				}
+			} else if (this.heldMoveKey) {
+				// Any other key ends the single-move run
+				this.heldMoveKey = null;
+			}
+		};
+
+		this.boundKeyupCapture = (e: KeyboardEvent) => {
+			const held = this.heldMoveKey;
+			if (!held || e.key !== held.key) return;
+			this.heldMoveKey = null;
+
+			if (!held.repeated || !this.settings.flashOnLongRepeats) return;
+			const to = this.getCursorPoint();
+			if (!to) return;
+			const isLongMove = this.flashScheduler.shouldFlashAfterRepeat(held.key, held.from, to, {
+				lines: this.settings.repeatLineThreshold,
+				chars: this.settings.repeatCharThreshold
+			});
+			if (isLongMove) {
+				this.scheduleFlash('key-repeat', false);
+			}
+		};
+
+		this.boundReleaseHeldKey = () => {
+			this.heldMoveKey = null;
+		};
+
+		this.boundReadingScroll = (e: Event) => {
+			if (!this.settings.flashInReadingView || !this.settings.flashOnWindowScrolls) return;
+			// Only the active note's Reading view; scroll events don't bubble, so this
+			// capture listener sees every scrolling element in the document
+			const container = this.getActiveReadingContainer();
+			if (container && e.target === container) {
+				this.handleScroll(container.scrollTop);
+			}
+		};
+
+		this.boundReadingPointerDown = (e: PointerEvent) => {
+			this.readingPosition.recordClick(e.target, e.clientX);
+		};
+		// Attach before registering the editor extension: existing editors track their
+		// window as soon as their ViewPlugin is created
+		this.windowTracker.track(window);
 
 		const decorationPlugin = this.createDecorationPlugin();
+		this.scrollbarMarkerPlugin = this.createScrollbarMarkerPlugin();
 		this.registerEditorExtension([
 			decorationPlugin,
+			this.createCaretLayer(),
+			this.createFlashLayer(),
+			this.createOffscreenIndicatorPlugin(),
+			this.scrollbarMarkerPlugin,
 			this.createDOMEventHandlers()
 		]);
 
@@ -159,242 +390,874 @@ export default class VisibleCursorPlugin extends Plugin {
 			})
 		);
 
+		// Popout windows get their own styles and key listeners; editors created in a
+		// window that is already open register it too (see the decoration plugin)
+		this.registerEvent(
+			this.app.workspace.on('window-open', (_workspaceWindow, win) => {
+				this.windowTracker.track(win);
+			})
+		);
+
+		this.registerEvent(
+			this.app.workspace.on('window-close', (_workspaceWindow, win) => {
+				this.windowTracker.untrack(win);
+			})
+		);
+
 		this.registerEvent(
 			this.app.workspace.on('css-change', () => {
 				this.app.workspace.updateOptions();
+				// Fonts may have changed with the theme or snippets
+				this.glyphMetrics.clear();
+				// Theme colors feed the cursor styles, so rebuild every editor's decorations
+				this.refreshDecorations();
 			})
 		);
+	}
 
-		// Global click fence: block flash work during pointer->click and a short tail
-		this.boundStartFence = () => { this.clickFenceActive = true; };
-		this.boundEndFenceSoon = () => { setTimeout(() => { this.clickFenceActive = false; }, 400); };
-		this.boundClickEndFence = () => { this.boundEndFenceSoon(); };
-		window.addEventListener('pointerdown', this.boundStartFence, { capture: true });
-		window.addEventListener('pointerup', this.boundEndFenceSoon, { capture: true });
-		window.addEventListener('pointercancel', this.boundEndFenceSoon, { capture: true });
-		window.addEventListener('click', this.boundClickEndFence, { capture: true });
-
-		// Capture-phase keydown listener: fires BEFORE CM6 processes the key and calls
-		// update(), so our endKeyPressedRecently flag is correctly set/cleared before
-		// buildDecorations reads it.  (EditorView.domEventHandlers fires at bubble phase,
-		// after CM6's internal handlers — too late to gate this flag.)
-		this.boundKeydownCapture = (e: KeyboardEvent) => {
-			if (e.key === 'End') {
-				this.endKeyPressedRecently = true;
-				if (this.endKeyTimer) clearTimeout(this.endKeyTimer);
-				// Clear after 100ms as a safety margin (one rAF is sufficient on fast machines).
-				this.endKeyTimer = setTimeout(() => {
-					this.endKeyPressedRecently = false;
-					this.endKeyTimer = null;
-				}, 100);
-			} else if (this.endKeyPressedRecently) {
-				// Any other key cancels the End-key window immediately.
-				this.endKeyPressedRecently = false;
-				if (this.endKeyTimer) {
-					clearTimeout(this.endKeyTimer);
-					this.endKeyTimer = null;
-				}
-			}
+	/**
+	 * Set up one window: the capture-phase key listeners (and the blur and
+	 * visibility listeners that release a held key), the Reading view scroll and
+	 * click listeners, and the dynamic cursor style element. Called through the
+	 * WindowTracker for the main window and every popout.
+	 *
+	 * @returns Cleanup that removes the key, focus, scroll and click listeners and the style element
+	 */
+	private attachWindow(win: Window): WindowCleanup {
+		win.addEventListener('keydown', this.boundKeydownCapture, { capture: true });
+		win.addEventListener('keyup', this.boundKeyupCapture, { capture: true });
+		win.addEventListener('blur', this.boundReleaseHeldKey);
+
+		const doc = win.document;
+		doc.addEventListener('visibilitychange', this.boundReleaseHeldKey);
+		doc.addEventListener('scroll', this.boundReadingScroll, { capture: true, passive: true });
+		doc.addEventListener('pointerdown', this.boundReadingPointerDown, { capture: true, passive: true });
+
+		const styleElement = doc.createElement('style');
+		styleElement.id = 'cursor-flash-dynamic-styles';
+		styleElement.textContent = this.cursorStyleContent;
+		doc.head.appendChild(styleElement);
+		this.cursorStyleElements.set(doc, styleElement);
+
+		return () => {
+			win.removeEventListener('keydown', this.boundKeydownCapture, { capture: true });
+			win.removeEventListener('keyup', this.boundKeyupCapture, { capture: true });
+			win.removeEventListener('blur', this.boundReleaseHeldKey);
+			doc.removeEventListener('visibilitychange', this.boundReleaseHeldKey);
+			doc.removeEventListener('scroll', this.boundReadingScroll, { capture: true });
+			doc.removeEventListener('pointerdown', this.boundReadingPointerDown, { capture: true });
+			styleElement.remove();
+			this.cursorStyleElements.delete(doc);
 		};
-		window.addEventListener('keydown', this.boundKeydownCapture, { capture: true });
+	}
+
+	/**
+	 * Commands for finding the cursor on demand. They bypass the FlashScheduler
+	 * gates: the user asked for a flash, so cooldowns and fences don't apply.
+	 */
+	private registerCommands() {
+		this.addCommand({
+			id: 'flash-cursor',
+			name: 'Flash cursor now',
+			editorCallback: (editor) => {
+				const editorView = this.editorViewOf(editor);
+				if (editorView) this.showFlash(editorView, { trigger: 'command' });
+			}
+		});
+
+		this.addCommand({
+			id: 'scroll-to-cursor-and-flash',
+			name: 'Scroll to cursor and flash',
+			editorCallback: (editor) => {
+				const editorView = this.editorViewOf(editor);
+				if (editorView) this.scrollToCursorAndFlash(editorView, { trigger: 'command' });
+			}
+		});
+
+		this.addCommand({
+			id: 'flash-cursor-locator',
+			name: 'Flash cursor locator',
+			editorCallback: (editor) => {
+				const editorView = this.editorViewOf(editor);
+				// Only scroll if the cursor is off-screen; the ring does the finding
+				if (editorView) this.scrollToCursorAndFlash(editorView, { trigger: 'command', style: 'locator' }, 'nearest');
+			}
+		});
+	}
+
+	/**
+	 * Scroll the cursor into view (centered by default), then flash it once the scroll has been drawn.
+	 */
+	scrollToCursorAndFlash(editorView: EditorView, options: FlashOptions = {}, y: 'center' | 'nearest' = 'center') {
+		// The scroll below would otherwise schedule its own flash
+		this.suppressFlashes(300);
+		editorView.dispatch({
+			effects: EditorView.scrollIntoView(editorView.state.selection.main.head, { y })
+		});
+		// Use the editor's own window: a popout's frames aren't paced by the main window
+		const win = editorView.dom.ownerDocument.defaultView ?? window;
+		win.requestAnimationFrame(() => win.requestAnimationFrame(() => this.showFlash(editorView, options)));
+	}
+
+	/**
+	 * Re-parse the user's jump key list. Call after settings.jumpKeys changes.
+	 */
+	updateJumpKeyChords() {
+		this.jumpKeyChords = this.settings.jumpKeys
+			.map(chord => parseKeyChord(chord))
+			.filter((chord): chord is KeyChord => chord !== null);
+	}
+
+	private getCursorPoint(): CursorPoint | null {
+		const editorView = this.getActiveEditorView();
+		if (!editorView) return null;
+		const head = editorView.state.selection.main.head;
+		return { line: editorView.state.doc.lineAt(head).number - 1, offset: head };
+	}
+
+	private isEditorKeyEvent(e: KeyboardEvent): boolean {
+		const target = e.target as HTMLElement | null;
+		return !!target?.closest?.('.cm-content');
 	}
 
 	createDecorationPlugin() {
 		const plugin = this;
 		return ViewPlugin.fromClass(class {
 			decorations: DecorationSet;
-
-			constructor(view: EditorView) {
+			// Which way each cursor moved in the last selection change (see detectSoftWrapEnd)
+			private movements: Array<-1 | 0 | 1> = [];
+			// Both sides of each cursor position, measured in the read phase
+			private wrapGeometry = new Map<number, WrapGeometry>();
+			// Cursors drawn at a soft-wrap end before their geometry was measured
+			private unconfirmedWrapEnds = new Set<number>();
+			// Layout of each cursor, read from the DOM when it was last current
+			private layouts: CursorLayout[] = [];
+			// False while an update changes the document: ViewPlugin.update runs before
+			// CM redraws the DOM, so the elements at the new positions are the old ones
+			private domCurrent = true;
+
+			constructor(private view: EditorView) {
 				this.decorations = Decoration.none;
-				plugin.decorationView = view;
+				plugin.viewRegistry.register(view);
+				const win = view.dom.ownerDocument.defaultView;
+				if (win) plugin.windowTracker.track(win);
 			}
 
 			update(update: ViewUpdate) {
+				if (update.docChanged) {
+					this.wrapGeometry.clear();
+				}
+				this.domCurrent = !update.docChanged;
+				if (update.docChanged || update.selectionSet) {
+					this.movements = this.getMovements(update);
+					const viewState = plugin.viewRegistry.get(update.view);
+					if (viewState) viewState.blinkRestarts++;
+				}
 				this.decorations = this.buildDecorations(update.view);
+				plugin.handleTransactions(update);
+			}
+
+			destroy() {
+				plugin.viewRegistry.unregister(this.view);
 			}
 
 			buildDecorations(view: EditorView): DecorationSet {
-				const builder = new RangeSetBuilder();
 				if (!view.hasFocus) {
-					return builder.finish() as DecorationSet;
+					return this.buildGhostDecorations(view);
 				}
 
 				const showAlwaysOn = plugin.settings.customCursorMode === 'always';
-				const showFlash = plugin.settings.customCursorMode === 'flash' && plugin.flashActive;
+				const viewState = plugin.viewRegistry.get(view);
+				const showFlash = plugin.settings.customCursorMode === 'flash' && !!viewState?.flashActive;
 				const shouldShowCursor = showAlwaysOn || showFlash;
 
 				if (!shouldShowCursor) {
-					return builder.finish() as DecorationSet;
+					return Decoration.none;
 				}
 
-				const pos = view.state.selection.main.head;
+				// With the smooth caret the focused editor's cursors are drawn in the caret layer
+				if (plugin.settings.smoothCaret) {
+					return Decoration.none;
+				}
+
+				// The "Only during flash" cursor plays the flash effect. Cursors redrawn
+				// mid-flash (the cursor moved) pick the animation up where it is.
+				// The "Always on" cursor blinks instead, if it is set to.
+				const animationStyle = showFlash && viewState
+					? plugin.flashAnimator.animationVariables(
+						plugin.getFlashAnimation(), viewState.flashDuration, Date.now() - viewState.flashStart
+					)
+					: plugin.blinkStyle(view);
+
 				const markerColor = plugin.colorProvider.getColor(plugin.settings).color;
 				const contrastColor = plugin.colorProvider.getContrastColor(markerColor);
 				// Thinbar uses a slightly darkened color to maintain visual weight at 2px width
 				const thinBarColor = adjustColorForThinBar(markerColor);
 				plugin.updateCursorStyles(markerColor, contrastColor, thinBarColor);
 
-				// Get the actual line height from font-size which is more reliable
-				let actualLineHeight = view.defaultLineHeight;
-				try {
-					const domAtPos = view.domAtPos(pos);
-					if (domAtPos && domAtPos.node) {
-						const element = domAtPos.node.nodeType === 1
-							? domAtPos.node as HTMLElement
-							: domAtPos.node.parentElement;
-						if (element) {
-							const lineElement = element.closest('.cm-line');
-							if (lineElement) {
-								const computedStyle = getComputedStyle(lineElement);
-								// Use font-size which matches cursor height better
-								const fontSize = computedStyle.fontSize;
-								const parsed = parseFloat(fontSize);
-								if (!isNaN(parsed)) {
-									actualLineHeight = parsed * 1.5; // Approximate line height as 1.5x font size
-								}
-							}
-						}
-					}
-				} catch (e) {
-					// Fallback to default if there's any error
-					actualLineHeight = view.defaultLineHeight;
+				// Decorate every cursor (Alt+click, Ctrl+D style multi-selections), not just the main one.
+				// With "Distinguish main cursor" on, secondary cursors are drawn faded.
+				const { ranges, mainIndex } = view.state.selection;
+				const distinguishMain = plugin.settings.distinguishMainCursor && ranges.length > 1;
+				const decorations: Range<Decoration>[] = [];
+				this.unconfirmedWrapEnds.clear();
+				ranges.forEach((range, index) => {
+					const isSecondary = distinguishMain && index !== mainIndex;
+					const decoration = this.buildCursorDecoration(view, range, this.cursorLayout(view, index, range.head), {
+						markerColor: isSecondary ? fadeColor(markerColor, SECONDARY_CURSOR_OPACITY) : markerColor,
+						thinBarColor: isSecondary ? fadeColor(thinBarColor, SECONDARY_CURSOR_OPACITY) : thinBarColor,
+						contrastColor,
+						extraClass: [isSecondary ? 'cursor-flash-secondary' : '', animationStyle ? 'cursor-cue-animated' : '']
+							.filter(Boolean).join(' '),
+						animationStyle
+					}, this.movements[index] ?? 0);
+					if (decoration) decorations.push(decoration);
+				});
+				if (view.lineWrapping) {
+					this.measureWrapGeometry(view, ranges.map(range => range.head));
+				}
+				if (!this.domCurrent) {
+					this.measureLayouts(view, ranges.map(range => range.head));
+				}
+
+				return Decoration.set(decorations, true);
+			}
+
+			/**
+			 * Dimmed cursor for editors that don't have focus (split panes, popouts),
+			 * where the native cursor isn't drawn at all.
+			 */
+			buildGhostDecorations(view: EditorView): DecorationSet {
+				if (!plugin.settings.showGhostCursor) {
+					return Decoration.none;
+				}
+
+				const markerColor = plugin.colorProvider.getColor(plugin.settings).color;
+				const ghostColor = fadeColor(markerColor, plugin.settings.ghostCursorOpacity);
+				plugin.updateCursorStyles(markerColor, plugin.colorProvider.getContrastColor(markerColor), adjustColorForThinBar(markerColor));
+
+				const pos = view.state.selection.main.head;
+				const layout = this.cursorLayout(view, 0, pos);
+				if (!this.domCurrent) this.measureLayouts(view, [pos]);
+				const isHollow = plugin.settings.ghostCursorStyle === 'hollow';
+				const char = view.state.doc.sliceString(pos, pos + 1);
+				if (char === '\n' || char === '') {
+					if (view.state.doc.length === 0) return Decoration.none;
+					const widget = new EndOfLineWidget(
+						ghostColor, '', isHollow ? 'hollow' : 'bar', layout.box, 'cursor-ghost', layout.direction
+					);
+					return Decoration.set([Decoration.widget({ widget, side: 1 }).range(pos)]);
 				}
 
+				let markClass = isHollow ? 'cursor-ghost-hollow-mark' : 'cursor-ghost-bar-mark';
+				if (plugin.getCharDirection(view, pos) === 'rtl') markClass += ' is-rtl';
+				return Decoration.set([Decoration.mark({ attributes: { class: markClass } }).range(pos, this.graphemeEndAt(view, pos))]);
+			}
+
+			buildCursorDecoration(
+				view: EditorView,
+				range: SelectionRange,
+				layout: CursorLayout,
+				colors: { markerColor: string; thinBarColor: string; contrastColor: string; extraClass: string; animationStyle: string },
+				movement: -1 | 0 | 1
+			): Range<Decoration> | null {
+				const pos = range.head;
+				const { markerColor, thinBarColor, contrastColor, extraClass, animationStyle } = colors;
+				const cursorBox = layout.box;
+				// thinbar uses the same EOL widget style as bar (a thin vertical line)
+				// but with an adjusted color for visual weight compensation
+				const isThinBar = plugin.settings.customCursorStyle === 'thinbar';
+				const widgetStyle = (plugin.settings.customCursorStyle === 'bar' || isThinBar) ? 'bar' : 'block';
+				const eolColor = isThinBar ? thinBarColor : markerColor;
+
 				if (pos >= view.state.doc.length) {
-					if (view.state.doc.length > 0) {
-						const isThinBar = plugin.settings.customCursorStyle === 'thinbar';
-						const widgetStyle = (plugin.settings.customCursorStyle === 'bar' || isThinBar) ? 'bar' : 'block';
-						const eolColor = isThinBar ? thinBarColor : markerColor;
-						const widget = Decoration.widget({
-							widget: new EndOfLineWidget(eolColor, contrastColor, widgetStyle, actualLineHeight),
-							side: 1
-						});
-						builder.add(view.state.doc.length, view.state.doc.length, widget);
-					}
+					if (view.state.doc.length === 0) return null;
+					return Decoration.widget({
+						widget: new EndOfLineWidget(
+							eolColor, contrastColor, widgetStyle, cursorBox, extraClass, layout.direction, animationStyle
+						),
+						side: 1
+					}).range(view.state.doc.length);
+				}
+
+				const char = view.state.doc.sliceString(pos, pos + 1);
+				const isEOL = char === '\n' || char === '';
+
+				// Soft-wrap end detection. See detectSoftWrapEnd() in src/utils.ts.
+				//
+				// The geometry of both sides of pos comes from the last measure cycle
+				// (measureWrapGeometry); until it's there, assoc and the line-end signal
+				// decide alone. Other plugins (e.g. emacs-text-editor's move-end-of-line,
+				// on any key binding) announce line-end moves through api.signalLineEnd().
+				const docLine = view.state.doc.lineAt(pos);
+				const geometry = this.wrapGeometry.get(pos);
+				const isSoftWrapEnd = detectSoftWrapEnd({
+					lineWrapping: view.lineWrapping,
+					isEOL,
+					isMidDocLine: pos > docLine.from,
+					assoc: range.assoc,
+					lineEndSignalled: Date.now() < plugin.lineEndSignalledUntil,
+					movement,
+					coordsLeftTop: geometry?.leftTop,
+					coordsRightTop: geometry?.rightTop,
+					actualLineHeight: cursorBox.height
+				});
+				if (isSoftWrapEnd && !geometry) {
+					this.unconfirmedWrapEnds.add(pos);
+				}
+
+				if (isEOL || isSoftWrapEnd) {
+					// For soft-wrap ends use side:-1 so the widget appears at the end of the current
+					// visual line rather than at the start of the next one.
+					const widgetSide = isSoftWrapEnd ? -1 : 1;
+					return Decoration.widget({
+						widget: new EndOfLineWidget(
+							eolColor, contrastColor, widgetStyle, cursorBox, extraClass, layout.direction, animationStyle
+						),
+						side: widgetSide
+					}).range(pos);
+				}
+
+				// Use mark decoration for all cursor styles.
+				// Decoration.mark wraps an existing character in a span without inserting
+				// new DOM nodes, so it cannot affect word-breaking or text reflow.
+				// The mark covers the whole grapheme, so emoji and combining sequences
+				// aren't split and wide (CJK) glyphs are covered edge to edge.
+				// The bar/thinbar cursor appearance is achieved via CSS ::before pseudo-element.
+				let markClass: string;
+				if (plugin.settings.customCursorStyle === 'bar') {
+					markClass = 'cursor-flash-bar-mark';
+				} else if (plugin.settings.customCursorStyle === 'thinbar') {
+					markClass = 'cursor-flash-thinbar-mark';
 				} else {
-					const char = view.state.doc.sliceString(pos, pos + 1);
-						let isEOL = char === '\n' || char === '';
-	
-						// Soft-wrap end detection. See detectSoftWrapEnd() in src/utils.ts.
-						//
-						// endKeyPressedRecently is the sole reliable discriminator between a
-						// soft-wrap end and a soft-wrap start: both have assoc = -1 and both
-						// produce different coordsAtPos .top values at the boundary.
-						//
-						// The capture-phase window.keydown handler (registered in onload) sets
-						// endKeyPressedRecently = true when End is pressed and clears it on any
-						// other key — before CM6 processes the keystroke and calls update().
-						// After →, the flag is false by the time buildDecorations runs.
-						const assoc = view.state.selection.main.assoc;
-						const docLine = view.state.doc.lineAt(pos);
-	
-						// Also check if the emacs-text-editor plugin signalled a move-to-end
-						// action. The emacs plugin exposes a capture-phase flag so that any
-						// key binding the user assigns to "move-end-of-line" is handled
-						// correctly, not just the default Ctrl+E.
-						const emacsPlugin = (plugin.app as any)?.plugins?.plugins?.['emacs-text-editor'];
-						const emacsMoveToEndRecently = emacsPlugin?.moveToEndRecently === true;
-	
-						const isSoftWrapEnd = detectSoftWrapEnd({
-							lineWrapping: view.lineWrapping,
-							isEOL,
-							isMidDocLine: pos > docLine.from,
-							assoc,
-							endKeyPressedRecently: plugin.endKeyPressedRecently || emacsMoveToEndRecently,
-							coordsLeftTop: undefined,
-							coordsRightTop: undefined,
-							actualLineHeight
-						});
+					markClass = 'cursor-flash-block-mark';
+				}
+				// The bar goes on the character's logical start: its right edge in RTL runs
+				if (plugin.getCharDirection(view, pos) === 'rtl') {
+					markClass += ' is-rtl';
+				}
+				const attributes: Record<string, string> = { class: extraClass ? `${markClass} ${extraClass}` : markClass };
+				if (animationStyle) {
+					attributes.style = animationStyle;
+				}
+				return Decoration.mark({ attributes }).range(pos, this.graphemeEndAt(view, pos));
+			}
 
-					if (isEOL || isSoftWrapEnd) {
-						// For soft-wrap ends use side:-1 so the widget appears at the end of the current
-						// visual line rather than at the start of the next one.
-						const widgetSide = isSoftWrapEnd ? -1 : 1;
-						// thinbar uses the same EOL widget style as bar (a thin vertical line)
-						// but with an adjusted color for visual weight compensation
-						const isThinBar = plugin.settings.customCursorStyle === 'thinbar';
-						const widgetStyle = (plugin.settings.customCursorStyle === 'bar' || isThinBar) ? 'bar' : 'block';
-						const eolColor = isThinBar ? thinBarColor : markerColor;
-						const widget = Decoration.widget({
-							widget: new EndOfLineWidget(eolColor, contrastColor, widgetStyle, actualLineHeight),
-							side: widgetSide
+			/**
+			 * Which way each cursor moved in an update: its new head against the old
+			 * head mapped through the changes (typing moves forward).
+			 */
+			getMovements(update: ViewUpdate): Array<-1 | 0 | 1> {
+				const before = update.startState.selection.ranges;
+				return update.state.selection.ranges.map((range, index) => {
+					if (index >= before.length) return 0;
+					const from = update.changes.mapPos(before[index].head);
+					return range.head > from ? 1 : range.head < from ? -1 : 0;
+				});
+			}
+
+			/**
+			 * Measure the rows on both sides of each cursor position. Redraws when a
+			 * position turns out to be a wrap boundary, or a cursor drawn at a wrap
+			 * end before measuring turns out not to be at one.
+			 */
+			measureWrapGeometry(view: EditorView, positions: number[]) {
+				const doc = view.state.doc;
+				view.requestMeasure({
+					key: this,
+					read: (view) => {
+						// A later update has its own request
+						if (view.state.doc !== doc) return null;
+						return positions.map(pos => {
+							const left = view.coordsAtPos(pos, -1);
+							const right = view.coordsAtPos(pos, 1);
+							const wraps = !!left && !!right && Math.abs(right.top - left.top) > (left.bottom - left.top) * 0.5;
+							return { pos, geometry: { leftTop: left?.top ?? null, rightTop: right?.top ?? null, wraps } };
 						});
-						builder.add(pos, pos, widget);
-					} else {
-						// Use mark decoration for all cursor styles.
-						// Decoration.mark wraps an existing character in a span without inserting
-						// new DOM nodes, so it cannot affect word-breaking or text reflow.
-						// The bar/thinbar cursor appearance is achieved via CSS ::before pseudo-element.
-						let markClass: string;
-						if (plugin.settings.customCursorStyle === 'bar') {
-							markClass = 'cursor-flash-bar-mark';
-						} else if (plugin.settings.customCursorStyle === 'thinbar') {
-							markClass = 'cursor-flash-thinbar-mark';
-						} else {
-							markClass = 'cursor-flash-block-mark';
-						}
-						const decoration = Decoration.mark({
-							attributes: { class: markClass }
+					},
+					write: (measured, view) => {
+						if (!measured) return;
+						const previous = this.wrapGeometry;
+						this.wrapGeometry = new Map(measured.map(({ pos, geometry }) => [pos, geometry]));
+						const changed = measured.some(({ pos, geometry }) => {
+							const before = previous.get(pos);
+							return before
+								? before.wraps !== geometry.wraps
+								: geometry.wraps || this.unconfirmedWrapEnds.has(pos);
 						});
-						builder.add(pos, pos + 1, decoration);
+						if (!changed) return;
+						// Can't dispatch during the measure cycle itself
+						setTimeout(() => {
+							if (plugin.viewRegistry.has(view)) view.dispatch({});
+						}, 0);
 					}
-				}
+				});
+			}
 
-				return builder.finish() as DecorationSet;
+			/**
+			 * Box and line direction for a cursor. While the DOM lags behind the
+			 * document (edits), the cursor keeps its previous layout; measureLayouts
+			 * then reads the redrawn lines and redraws if they changed.
+			 */
+			cursorLayout(view: EditorView, index: number, pos: number): CursorLayout {
+				const previous = this.layouts[index];
+				if (!this.domCurrent && previous) return previous;
+				const font = plugin.getFontAt(view, pos);
+				const layout = {
+					box: plugin.getCursorBox(view, pos, font),
+					direction: plugin.getLineDirection(view, pos),
+					fontKey: font ? plugin.lineBoxKey(font) : null
+				};
+				this.layouts[index] = layout;
+				return layout;
+			}
+
+			/**
+			 * After an edit, read the fonts and direction at each cursor from the
+			 * redrawn DOM, and redraw if a cursor's line changed type (typing "# ").
+			 */
+			measureLayouts(view: EditorView, positions: number[]) {
+				const doc = view.state.doc;
+				view.requestMeasure({
+					key: this.layouts,
+					read: (view) => {
+						if (view.state.doc !== doc) return false;
+						return positions.some((pos, index) => {
+							const previous = this.layouts[index];
+							if (!previous) return false;
+							const font = plugin.getFontAt(view, pos);
+							return (font ? plugin.lineBoxKey(font) : null) !== previous.fontKey
+								|| plugin.getLineDirection(view, pos) !== previous.direction;
+						});
+					},
+					write: (changed, view) => {
+						if (!changed) return;
+						// Can't dispatch during the measure cycle itself
+						setTimeout(() => {
+							if (plugin.viewRegistry.has(view)) view.dispatch({});
+						}, 0);
+					}
+				});
+			}
+
+			/**
+			 * End of the user-perceived character at a position (see nextGraphemeBreak).
+			 */
+			graphemeEndAt(view: EditorView, pos: number): number {
+				const line = view.state.doc.lineAt(pos);
+				return line.from + nextGraphemeBreak(line.text, pos - line.from);
 			}
 		}, {
 			decorations: (v: any) => v.decorations
 		});
 	}
 
-	createDOMEventHandlers() {
+	/**
+	 * Fonts at a document position, for GlyphMetrics lookups: the font of the
+	 * element holding the glyph (inline code, list markers, ...) and of its line.
+	 */
+	private getFontAt(view: EditorView, pos: number): CursorFont | null {
+		const elements = this.getElementsAt(view, pos);
+		if (!elements) return null;
+		const style = getComputedStyle(elements.glyph);
+		return {
+			font: fontShorthand(style),
+			lineFont: elements.glyph === elements.line ? fontShorthand(style) : fontShorthand(getComputedStyle(elements.line)),
+			fontSize: parseFloat(style.fontSize) || 16,
+			zoom: view.dom.ownerDocument.defaultView?.devicePixelRatio ?? 1
+		};
+	}
+
+	private getElementsAt(view: EditorView, pos: number): { glyph: HTMLElement; line: HTMLElement } | null {
+		try {
+			const { node } = view.domAtPos(pos);
+			const glyph = node.nodeType === 1 ? node as HTMLElement : node.parentElement;
+			const line = glyph?.closest<HTMLElement>('.cm-line');
+			if (!glyph || !line) return null;
+			// domAtPos can land on the line itself or on a cursor decoration span
+			return { glyph: line.contains(glyph) ? glyph : line, line };
+		} catch (e) {
+			// domAtPos can throw for positions outside the rendered document
+			return null;
+		}
+	}
+
+	/**
+	 * Direction of the line at a position, which decides where "line start" and
+	 * "line end" are. Read from the rendered line so that per-line direction
+	 * (dir="auto", RTL notes) is taken into account.
+	 */
+	getLineDirection(view: EditorView, pos: number): 'ltr' | 'rtl' {
+		const elements = this.getElementsAt(view, pos);
+		if (elements) {
+			return getComputedStyle(elements.line).direction === 'rtl' ? 'rtl' : 'ltr';
+		}
+		return view.textDirectionAt(pos) === Direction.RTL ? 'rtl' : 'ltr';
+	}
+
+	/**
+	 * Direction of the character after a cursor position, from CodeMirror's bidi
+	 * spans. In mixed-direction lines this decides which side of the character
+	 * the cursor is drawn on.
+	 */
+	getCharDirection(view: EditorView, pos: number): 'ltr' | 'rtl' {
+		const line = view.state.doc.lineAt(pos);
+		const spans = view.bidiSpans(line);
+		// Fast path for the common all-LTR line
+		if (spans.length === 1 && spans[0].level === 0) return 'ltr';
+		const fallback = view.textDirectionAt(pos) === Direction.RTL ? 'rtl' : 'ltr';
+		return directionAtOffset(spans, pos - line.from, 1, fallback);
+	}
+
+	/**
+	 * Size and placement for the cursor widgets at a position: the line box
+	 * measured for the line and glyph fonts, and one character of the glyph font.
+	 * Runs while decorations are built, so a missing measurement is requested
+	 * for CM's next measure phase and the cursor is redrawn once it arrives.
+	 */
+	getCursorBox(view: EditorView, pos: number, fontInfo: CursorFont | null = this.getFontAt(view, pos)): CursorBox {
+		if (!fontInfo) {
+			return { height: view.defaultLineHeight, descent: 0, width: view.defaultCharacterWidth };
+		}
+		const width = this.glyphMetrics.charWidth(fontInfo.font, fontInfo.zoom)
+			?? calculateCharacterWidth(fontInfo.fontSize);
+		const boxFont = this.lineBoxKey(fontInfo);
+		const measured = this.glyphMetrics.lineBox(boxFont, fontInfo.zoom);
+		if (measured) return { ...measured, width };
+
+		view.requestMeasure({
+			key: `cursor-cue-line-box:${boxFont}`,
+			read: (view) => {
+				if (pos > view.state.doc.length) return null;
+				// Key the box by the fonts of the DOM it is measured from, which may
+				// have been redrawn since (a line that just became a heading)
+				const measuredFont = this.getFontAt(view, pos);
+				const box = measuredFont && this.measureLineBox(view, pos);
+				return measuredFont && box ? { key: this.lineBoxKey(measuredFont), zoom: measuredFont.zoom, box } : null;
+			},
+			write: (measured, view) => {
+				if (!measured || !this.glyphMetrics.recordLineBox(measured.key, measured.zoom, measured.box)) return;
+				// Can't dispatch during the measure cycle itself
+				setTimeout(() => {
+					if (this.viewRegistry.has(view)) view.dispatch({});
+				}, 0);
+			}
+		});
+		return { height: calculateLineHeightFromFontSize(fontInfo.fontSize), descent: 0, width };
+	}
+
+	/**
+	 * GlyphMetrics key for a line box: a glyph font sits differently in different line fonts.
+	 */
+	private lineBoxKey(fontInfo: CursorFont): string {
+		return `${fontInfo.lineFont} | ${fontInfo.font}`;
+	}
+
+	/**
+	 * Measure the visual row holding a position: its height, and how far its
+	 * bottom is below the bottom of the glyph at the position. Line padding
+	 * (headings) is excluded. Read phase only.
+	 */
+	private measureLineBox(view: EditorView, pos: number): LineBox | null {
+		const elements = this.getElementsAt(view, pos);
+		const caret = view.coordsAtPos(pos, 1);
+		const block = view.lineBlockAt(pos);
+		const first = view.coordsAtPos(block.from, 1);
+		const last = view.coordsAtPos(block.to, -1);
+		if (!elements || !caret || !first || !last) return null;
+
+		const lineStyle = getComputedStyle(elements.line);
+		const paddingTop = parseFloat(lineStyle.paddingTop) || 0;
+		const paddingBottom = parseFloat(lineStyle.paddingBottom) || 0;
+		const contentTop = view.documentTop + block.top + paddingTop;
+
+		let height: number;
+		if (last.top - first.top < 1) {
+			// An unwrapped line's block is exactly one line box plus padding
+			height = block.height - paddingTop - paddingBottom;
+		} else {
+			// Wrapped line: one line box is the distance between the first two rows
+			const nextRowPos = view.posAtCoords({ x: first.left, y: first.bottom + 1 }, false);
+			const nextRow = view.coordsAtPos(nextRowPos, 1);
+			if (!nextRow || nextRow.top <= first.top) return null;
+			height = nextRow.top - first.top;
+		}
+		if (height <= 0) return null;
+
+		const row = Math.max(0, Math.floor((caret.top - contentTop) / height));
+		const rowBottom = contentTop + (row + 1) * height;
+		return { height, descent: Math.max(0, rowBottom - caret.bottom) };
+	}
+
+	/**
+	 * The flash effect from the settings, shared by the line overlay and the
+	 * "Only during flash" cursor.
+	 */
+	private getFlashAnimation(): FlashAnimation {
+		return {
+			effect: this.settings.flashEffect,
+			easing: this.settings.flashEasing,
+			repeat: this.settings.flashRepeat,
+			intensity: this.settings.flashIntensity
+		};
+	}
+
+	/**
+	 * Width of the flash highlight: flashSize characters of the given font.
+	 */
+	private getHighlightDistance(fontInfo: Pick<CursorFont, 'font' | 'fontSize' | 'zoom'>): number {
+		return this.glyphMetrics.spanWidth(fontInfo.font, fontInfo.zoom, this.settings.flashSize)
+			?? calculateHighlightDistance(this.settings.flashSize, calculateCharacterWidth(fontInfo.fontSize));
+	}
+
+	/**
+	 * Classify the transactions of a view update by their userEvent annotations.
+	 * Pointer selections raise the click fence and typing quiets scroll flashes;
+	 * other selection changes flash if they moved the cursor far (search matches
+	 * always flash). Called from the decoration ViewPlugin.
+	 * Jumps flash in the editor that moved, focused or not.
+	 */
+	handleTransactions(update: ViewUpdate) {
+		const intent = this.triggerClassifier.classify(update.transactions);
+		if (this.triggerClassifier.requiresFocus(intent) && !this.isFocusedEditor(update.view)) return;
+		const now = Date.now();
+		if (intent === 'pointer') {
+			this.pointerFenceUntil = now + 400;
+			return;
+		}
+		if (intent === 'typing') {
+			this.typingQuietUntil = now + 500;
+			return;
+		}
+
+		const trigger = this.triggerClassifier.toFlashTrigger(intent);
+		if (!trigger || !this.settings.flashOnDistantJumps || !update.selectionSet) return;
+		// Held movement keys are handled once on keyup
+		if (this.heldMoveKey?.repeated) return;
+
+		const toHead = update.state.selection.main.head;
+		// Map the old head through any document changes (undo/redo) so both
+		// positions refer to the new document
+		const fromHead = update.changes.mapPos(update.startState.selection.main.head);
+		if (fromHead === toHead) return;
+
+		const trail = { view: update.view, from: fromHead };
+		if (trigger === 'search-jump') {
+			this.scheduleFlash(trigger, false, trail);
+			return;
+		}
+
+		// The rows the cursor left and landed on are only known once the DOM is
+		// updated, so the distance is measured in CM's read phase
+		const fromSide = update.startState.selection.main.assoc < 0 ? -1 : 1;
+		const toSide = update.state.selection.main.assoc < 0 ? -1 : 1;
+		const doc = update.state.doc;
+		update.view.requestMeasure({
+			key: this.jumpMeasureKey,
+			read: (view) => {
+				// A later update measures its own move
+				if (view.state.doc !== doc) return false;
+				const rows: RowLocator = {
+					lineAt: (pos) => doc.lineAt(pos).number,
+					rowTopAt: (pos, side) => {
+						const coords = view.coordsAtPos(pos, side);
+						return coords ? (coords.top - view.documentTop) / view.scaleY : null;
+					},
+					blockTopAt: (pos) => view.lineBlockAt(pos).top
+				};
+				return this.flashScheduler.isDistantJump(
+					this.flashScheduler.jumpPoint(rows, fromHead, fromSide),
+					this.flashScheduler.jumpPoint(rows, toHead, toSide),
+					{ lines: this.settings.jumpDistanceLines, pixels: this.settings.jumpDistancePixels }
+				);
+			},
+			write: (isJump) => {
+				if (isJump) this.scheduleFlash(trigger, false, trail);
+			}
+		});
+	}
+
+	private isPointerFenceActive(): boolean {
+		return Date.now() < this.pointerFenceUntil;
+	}
+
+	/**
+	 * Per-editor pill that points at the cursor while it is scrolled out of view.
+	 * Measures in requestMeasure so scrolling never forces a synchronous layout.
+	 */
+	createOffscreenIndicatorPlugin() {
 		const plugin = this;
+		return ViewPlugin.fromClass(class {
+			indicator: OffscreenIndicator;
+			onScroll: () => void;
+
+			constructor(private view: EditorView) {
+				this.indicator = new OffscreenIndicator(view.dom, () => {
+					view.focus();
+					plugin.scrollToCursorAndFlash(view, { trigger: 'indicator' });
+				});
+				// Scrolling within the rendered viewport doesn't produce a ViewUpdate
+				this.onScroll = () => this.scheduleMeasure();
+				view.scrollDOM.addEventListener('scroll', this.onScroll, { passive: true });
+				this.scheduleMeasure();
+			}
 
-		return EditorView.domEventHandlers({
-			scroll: (event: Event, view: EditorView) => {
-				if (!plugin.settings.flashOnWindowScrolls) return false;
+			update(update: ViewUpdate) {
+				if (update.selectionSet || update.docChanged || update.viewportChanged || update.geometryChanged) {
+					this.scheduleMeasure();
+				}
+			}
 
-				const currentScrollPos = view.scrollDOM.scrollTop;
-				const scrollDelta = Math.abs(currentScrollPos - plugin.lastScrollPosition);
-				plugin.lastScrollPosition = currentScrollPos;
-
-				// While a flash is active (or was recently shown), keep extending the
-				// suppression window and cancel any pending debounce.  This prevents
-				// momentum / inertial scrolling from triggering a second flash.
-				const now = Date.now();
-				if (plugin.flashActive || now < plugin.scrollFlashSuppressedUntil) {
-					plugin.scrollFlashSuppressedUntil = now + 300;
-					if (plugin.scrollDebounceTimer) {
-						clearTimeout(plugin.scrollDebounceTimer);
-						plugin.scrollDebounceTimer = null;
+			scheduleMeasure() {
+				this.view.requestMeasure<Pick<OffscreenState, 'direction' | 'distance'>>({
+					key: this,
+					read: (view) => {
+						const hidden = { direction: null, distance: 0 };
+						if (!plugin.settings.showOffscreenIndicator) return hidden;
+
+						const head = view.state.selection.main.head;
+						const block = view.lineBlockAt(head);
+						const scroller = view.scrollDOM.getBoundingClientRect();
+						// documentTop is the screen y of the document's top edge
+						const direction = getOffscreenDirection(
+							view.documentTop + block.top,
+							view.documentTop + block.bottom,
+							scroller.top,
+							scroller.bottom
+						);
+						if (!direction) return hidden;
+
+						const edgeY = direction === 'above' ? scroller.top : scroller.bottom - 1;
+						const edgeBlock = view.lineBlockAtHeight(edgeY - view.documentTop);
+						const doc = view.state.doc;
+						const distance = Math.abs(doc.lineAt(edgeBlock.from).number - doc.lineAt(head).number);
+						return { direction, distance };
+					},
+					write: ({ direction, distance }) => {
+						// Color lookups create temporary elements, so they belong in the write phase
+						const color = direction ? plugin.colorProvider.getColor(plugin.settings).color : '';
+						const textColor = direction ? plugin.colorProvider.getContrastColor(color) : '';
+						this.indicator.update({ direction, distance, color, textColor });
 					}
-					return false;
-				}
+				});
+			}
 
-				if (plugin.scrollDebounceTimer) {
-					clearTimeout(plugin.scrollDebounceTimer);
+			destroy() {
+				this.view.scrollDOM.removeEventListener('scroll', this.onScroll);
+				this.indicator.destroy();
+			}
+		});
+	}
+
+	/**
+	 * Per-editor marker in the vertical scrollbar track at the cursor line.
+	 * Uses the height map, so folding and wrapped lines shift it correctly;
+	 * geometryChanged covers pane resizes.
+	 */
+	createScrollbarMarkerPlugin() {
+		const plugin = this;
+		return ViewPlugin.fromClass(class {
+			marker: ScrollbarMarker;
+
+			constructor(private view: EditorView) {
+				this.marker = new ScrollbarMarker(view.dom);
+				this.scheduleMeasure();
+			}
+
+			update(update: ViewUpdate) {
+				if (update.selectionSet || update.docChanged || update.viewportChanged || update.geometryChanged) {
+					this.scheduleMeasure();
 				}
+			}
 
-				const debounceTime = plugin.flashScheduler.getScrollDebounceTime(scrollDelta);
-				plugin.scrollDebounceTimer = setTimeout(() => {
-					plugin.scheduleFlash('scroll', false);
-					plugin.scrollDebounceTimer = null;
-				}, debounceTime);
+			scheduleMeasure() {
+				this.view.requestMeasure<Omit<ScrollbarMarkerPlacement, 'color'>>({
+					key: this,
+					read: (view) => {
+						const scroller = view.scrollDOM;
+						const hidden = { visible: false, top: 0, height: 0, width: 0 };
+						// Nothing to mark if the note fits on screen
+						if (!plugin.settings.showScrollbarMarker || scroller.scrollHeight <= scroller.clientHeight) return hidden;
+
+						const block = view.lineBlockAt(view.state.selection.main.head);
+						const scrollerRect = scroller.getBoundingClientRect();
+						const hostRect = view.dom.getBoundingClientRect();
+						// Cursor line top in scroll-content coordinates
+						const lineTop = view.documentTop + block.top - scrollerRect.top + scroller.scrollTop;
+						const { top, height } = calculateScrollbarMarker(lineTop, block.height, scroller.scrollHeight, scroller.clientHeight);
+						// Overlay scrollbars report no width; fall back to a slim track
+						const width = Math.max(4, scroller.offsetWidth - scroller.clientWidth);
+						return { visible: true, top: scrollerRect.top - hostRect.top + top, height, width };
+					},
+					write: (placement) => {
+						const color = placement.visible ? plugin.colorProvider.getColor(plugin.settings).color : '';
+						this.marker.update({ ...placement, color });
+					}
+				});
+			}
 
+			destroy() {
+				this.marker.destroy();
+			}
+		});
+	}
+
+	createDOMEventHandlers() {
+		const plugin = this;
+
+		return EditorView.domEventHandlers({
+			scroll: (event: Event, view: EditorView) => {
+				if (!plugin.settings.flashOnWindowScrolls) return false;
+				plugin.handleScroll(view.scrollDOM.scrollTop);
 				return false;
 			}
 		});
 	}
 
-	scheduleFlash(trigger: string, isMouseClick: boolean) {
+	/**
+	 * Debounce a scroll (editor or Reading view) into a single 'scroll' flash.
+	 */
+	private handleScroll(currentScrollPos: number) {
+		const scrollDelta = Math.abs(currentScrollPos - this.lastScrollPosition);
+		this.lastScrollPosition = currentScrollPos;
+
+		// While a flash is active (or was recently shown), keep extending the
+		// suppression window and cancel any pending debounce.  This prevents
+		// momentum / inertial scrolling from triggering a second flash.
+		// A held movement key scrolls the view on every repeat; the
+		// key-repeat trigger flashes once on release instead.
+		const now = Date.now();
+		if (this.heldMoveKey?.repeated || this.flashActive || now < this.scrollFlashSuppressedUntil) {
+			this.scrollFlashSuppressedUntil = now + 300;
+			if (this.scrollDebounceTimer) {
+				clearTimeout(this.scrollDebounceTimer);
+				this.scrollDebounceTimer = null;
+			}
+			return;
+		}
+
+		if (this.scrollDebounceTimer) {
+			clearTimeout(this.scrollDebounceTimer);
+		}
+
+		const debounceTime = this.flashScheduler.getScrollDebounceTime(scrollDelta);
+		this.scrollDebounceTimer = setTimeout(() => {
+			this.scheduleFlash('scroll', false);
+			this.scrollDebounceTimer = null;
+		}, debounceTime);
+	}
+
+	scheduleFlash(trigger: FlashTrigger, isMouseClick: boolean, trail?: JumpTrail) {
 		if (isMouseClick) return;
 
 		const state: FlashState = {
-			isFenceActive: this.clickFenceActive,
+			isFenceActive: this.isPointerFenceActive(),
 			isFlashActive: this.flashActive,
 			hasPendingFlash: !!this.pendingFlashTrigger,
 			lastViewChange: this.lastViewChange,
-			now: Date.now()
+			now: Date.now(),
+			isTypingActive: Date.now() < this.typingQuietUntil,
+			isSuppressed: Date.now() < this.flashesSuppressedUntil
 		};
 
 		if (!this.flashScheduler.canScheduleFlash(trigger, state)) return;
@@ -406,17 +1269,106 @@ export default class VisibleCursorPlugin extends Plugin {
 
 		this.pendingFlashTrigger = trigger;
 		this.flashTimeout = this.flashScheduler.scheduleCallback(() => {
-			this.showFlash();
+			// Jumps flash the editor that moved, which may not have focus
+			this.showFlash(trail?.view, { trigger }, trail);
 			this.pendingFlashTrigger = null;
 		}, 50);
 	}
 
-	showFlash() {
+	/**
+	 * Suppress automatic flashes for a while. Explicit flashes (API, commands) still show.
+	 */
+	suppressFlashes(ms: number) {
+		this.flashesSuppressedUntil = Math.max(this.flashesSuppressedUntil, Date.now() + ms);
+		if (this.flashTimeout) {
+			clearTimeout(this.flashTimeout);
+			this.flashTimeout = null;
+			this.pendingFlashTrigger = null;
+		}
+		if (this.scrollDebounceTimer) {
+			clearTimeout(this.scrollDebounceTimer);
+			this.scrollDebounceTimer = null;
+		}
+	}
+
+	/**
+	 * Mark the next cursor placement as a move to the end of a visual line.
+	 * The window is short: the caller dispatches its selection change right after.
+	 */
+	signalLineEnd() {
+		this.lineEndSignalledUntil = Date.now() + 100;
+	}
+
+	/**
+	 * The editor to flash when no view is given: the focused CodeMirror editor,
+	 * wherever it lives (a note, a Canvas card, a table cell, an embedded note),
+	 * else the active note's editor.
+	 */
+	private getActiveEditorView(): EditorView | null {
+		const focused = this.getFocusedEditorView();
+		if (focused) return focused;
 		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!view || !view.editor) return;
+		// In Reading view the editor still exists, hidden; see getActiveReadingContainer()
+		if (!view || !view.editor || view.getMode() === 'preview') return null;
+		return this.editorViewOf(view.editor);
+	}
 
-		const editorView = (view.editor as any).cm as EditorView;
-		if (!editorView) return;
+	/**
+	 * The CodeMirror view behind an Obsidian editor (not part of the public API).
+	 */
+	private editorViewOf(editor: Editor): EditorView | null {
+		return ((editor as any).cm as EditorView) ?? null;
+	}
+
+	private getFocusedEditorView(): EditorView | null {
+		return this.viewRegistry.views().find(view =>
+			view.dom.ownerDocument.hasFocus() && this.isFocusedEditor(view)
+		) ?? null;
+	}
+
+	/**
+	 * Whether DOM focus is inside this editor and not inside an editor nested in it.
+	 * Checks the whole editor rather than view.hasFocus so that the search
+	 * panel (which holds focus while stepping through matches) counts.
+	 */
+	private isFocusedEditor(view: EditorView): boolean {
+		const active = view.dom.ownerDocument.activeElement;
+		// closest() finds the innermost editor, so a focused table cell editor
+		// isn't also taken as focus in the note editor around it
+		return !!active && active.closest('.cm-editor') === view.dom;
+	}
+
+	/**
+	 * The scrolling element of the active note when it is in Reading view.
+	 */
+	private getActiveReadingContainer(): HTMLElement | null {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view || view.getMode() !== 'preview') return null;
+		const containerEl = view.previewMode.containerEl;
+		return containerEl.matches(READING_VIEW_SELECTOR)
+			? containerEl
+			: containerEl.querySelector<HTMLElement>(READING_VIEW_SELECTOR);
+	}
+
+	/**
+	 * Show a flash right away. Triggers are gated by scheduleFlash() before they
+	 * get here; API callers and commands call this directly.
+	 *
+	 * @param target - Editor to flash; defaults to the active markdown editor
+	 * @param options - Per-flash overrides of the line highlight style and duration
+	 * @param trail - Where the cursor jumped from, if this flash follows a jump
+	 */
+	showFlash(target?: EditorView, options: FlashOptions = {}, trail?: JumpTrail) {
+		const editorView = target ?? this.getActiveEditorView();
+		if (!editorView) {
+			const readingContainer = this.settings.flashInReadingView ? this.getActiveReadingContainer() : null;
+			if (readingContainer) this.showReadingFlash(readingContainer, options);
+			return;
+		}
+
+		const mode = options.style ?? this.settings.lineHighlightMode;
+		const duration = options.duration ?? this.settings.lineDuration;
+		const trigger = options.trigger ?? 'api';
 
 		// Cancel any pending scroll debounce so it can't fire after this flash
 		if (this.scrollDebounceTimer) {
@@ -424,177 +1376,378 @@ export default class VisibleCursorPlugin extends Plugin {
 			this.scrollDebounceTimer = null;
 		}
 
-		if (this.settings.lineHighlightMode === 'left') {
-			this.showLineFlash(editorView);
-		} else if (this.settings.lineHighlightMode === 'centered') {
-			this.showCursorCenteredFlash(editorView);
-		} else if (this.settings.lineHighlightMode === 'right') {
-			this.showLineFlashRightToLeft(editorView);
+		const { ranges, main } = editorView.state.selection;
+		const heads = this.settings.flashAllCursors ? ranges.map(range => range.head) : [main.head];
+		const flashes: LineFlash[] = [];
+		// Resolve the color now: the flash layer measures markers in CM's read phase
+		const { color, opacity } = this.colorProvider.getColor(this.settings);
+		const rgb = hexToRgb(color);
+		if (mode !== 'off') {
+			for (const pos of heads) {
+				flashes.push({ id: ++this.nextFlashId, pos, mode, duration, rgb, opacity });
+			}
 		}
+		if (trail && trail.view === editorView && this.settings.showJumpTrail) {
+			const from = Math.min(trail.from, editorView.state.doc.length);
+			flashes.push({ id: ++this.nextFlashId, pos: main.head, from, mode: 'trail', duration, rgb, opacity });
+		}
+
+		if (this.settings.showScrollbarMarker) {
+			editorView.plugin(this.scrollbarMarkerPlugin)?.marker.emphasise(duration);
+		}
+
+		this.startFlashCooldown(duration, { view: editorView, trigger, duration });
+
+		// Flashes and the "Only during flash" cursor are per editor, so flashing
+		// one pane doesn't cut short a flash that is still running in another
+		const viewState = this.viewRegistry.get(editorView);
+		if (!viewState) return;
+		viewState.flashActive = true;
+		viewState.flashStart = Date.now();
+		viewState.flashDuration = duration;
+		if (viewState.resetTimeout) {
+			clearTimeout(viewState.resetTimeout);
+		}
+		viewState.resetTimeout = this.flashScheduler.scheduleReset(() => {
+			viewState.flashActive = false;
+			viewState.resetTimeout = null;
+			if (this.viewRegistry.has(editorView)) {
+				editorView.dispatch({ effects: setLineFlashes.of([]) });
+			}
+		}, duration);
+
+		// Draws the flashes, and rebuilds the decorations for the "Only during flash" cursor
+		editorView.dispatch({ effects: setLineFlashes.of(flashes) });
+	}
 
+	/**
+	 * Set flashActive for the length of a flash and report it through the API.
+	 *
+	 * @param flashInfo - Event payload, or null for Reading view flashes (no editor to report)
+	 */
+	private startFlashCooldown(duration: number, flashInfo: FlashEventInfo | null) {
 		// Always set flashActive as a cooldown guard to prevent
 		// double-triggering (e.g. scroll → showFlash → layout shift → scroll)
 		this.flashActive = true;
 		if (this.resetFlashTimeout) {
 			clearTimeout(this.resetFlashTimeout);
 		}
-
-		// Only dispatch when customCursorMode is 'flash' (to toggle the decoration).
-		// Allow dispatch during click fence for view-change/layout-change triggers.
-		const isViewFlashTrigger = this.pendingFlashTrigger === 'view-change' || this.pendingFlashTrigger === 'layout-change';
-		if (this.settings.customCursorMode === 'flash') {
-			if (isViewFlashTrigger || !this.clickFenceActive) { editorView.dispatch({}); }
+		// Every flash-start gets a matching flash-end, even when a new flash cuts it short
+		if (flashInfo) {
+			this.api.flashStarted(flashInfo);
+		} else {
+			this.api.flashEnded();
 		}
 
 		this.resetFlashTimeout = this.flashScheduler.scheduleReset(() => {
 			this.flashActive = false;
-			if (this.settings.customCursorMode === 'flash') {
-				editorView.dispatch({});
+			if (flashInfo) {
+				this.api.flashEnded(flashInfo);
 			}
-		}, this.settings.lineDuration);
+		}, duration);
 	}
 
-	showLineFlash(editorView: EditorView) {
-		const cursor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
-		if (!cursor) return;
+	/**
+	 * Reading view has no cursor: flash the paragraph the reader last clicked,
+	 * or the block at the top of the view, with the same line highlight shapes.
+	 */
+	showReadingFlash(container: HTMLElement, options: FlashOptions = {}) {
+		const mode = options.style ?? this.settings.lineHighlightMode;
+		const duration = options.duration ?? this.settings.lineDuration;
+		if (mode === 'off') return;
+
+		const target = this.readingPosition.findTarget(container);
+		if (!target) return;
+
+		// Only the visible part of the block, so long paragraphs don't flash off-screen
+		const visible = container.getBoundingClientRect();
+		const blockRect = target.block.getBoundingClientRect();
+		const top = Math.max(blockRect.top, visible.top);
+		const height = Math.min(blockRect.bottom, visible.bottom) - top;
+		if (height <= 0 || blockRect.width <= 0) return;
 
-		const pos = (cursor as any).posToOffset(cursor.getCursor());
-		const coords = editorView.coordsAtPos(pos);
-		if (!coords) return;
-
-		const editorElement = editorView.contentDOM;
-		const editorRect = editorElement.getBoundingClientRect();
-		const lineHeight = editorView.defaultLineHeight;
 		const { color, opacity } = this.colorProvider.getColor(this.settings);
 		const rgb = hexToRgb(color);
-		// Calculate highlight distance based on flashSize setting (in character widths)
-		const fontSize = parseFloat(getComputedStyle(editorElement).fontSize) || 16;
-		const charWidth = fontSize * 0.6; // Approximate character width
-		const highlightDistance = this.settings.flashSize * charWidth; // Direct width in pixels
-		const highlightPercent = Math.min(100, (highlightDistance / editorRect.width) * 100);
-
-		const colorStop = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${opacity})`;
-		const cssText = `
-			position: fixed;
-			left: ${editorRect.left}px;
-			top: ${coords.top}px;
-			width: ${editorRect.width}px;
-			height: ${lineHeight}px;
-			background: linear-gradient(to right,
-				${colorStop} 0%,
-				rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${opacity * 0.5}) ${highlightPercent * 0.5}%,
-				rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0) ${highlightPercent}%,
-				rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0) 100%
+		const blockStyle = getComputedStyle(target.block);
+		const fontSize = parseFloat(blockStyle.fontSize) || 16;
+		const firstLineHeight = Math.min(height, parseFloat(blockStyle.lineHeight) || calculateLineHeightFromFontSize(fontSize));
+		const direction = blockStyle.direction === 'rtl' ? 'rtl' : 'ltr';
+		// Where the reader clicked, or the start of the block's first line
+		const cursor = {
+			x: target.clickX ?? (direction === 'rtl' ? blockRect.right : blockRect.left),
+			y: top + firstLineHeight / 2
+		};
+
+		let cssText: string;
+		if (mode === 'locator') {
+			cssText = this.flashRenderer.buildLocatorCSS(
+				cursor,
+				firstLineHeight * 4,
+				`rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${opacity})`,
+				duration
 			);
-			pointer-events: none;
-			z-index: 1;
-			animation: flash-line-fade ${this.settings.lineDuration}ms ease-out;
-		`;
+		} else {
+			const distance = this.getHighlightDistance({
+				font: fontShorthand(blockStyle),
+				fontSize,
+				zoom: container.ownerDocument.defaultView?.devicePixelRatio ?? 1
+			});
+			const line = { left: blockRect.left, top, width: blockRect.width, height };
+			const area = { left: blockRect.left, top: visible.top, width: blockRect.width, height: visible.height };
+			cssText = this.flashRenderer.buildShapeCSS(
+				resolveHighlightSide(mode, direction),
+				{ line, cursor, area, distance },
+				{ rgb, opacity }
+			);
+			cssText += this.flashAnimator.buildAnimationCSS(
+				this.getFlashAnimation(), duration, `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${opacity})`
+			);
+		}
 
-		this.flashRenderer.render('left', cssText, this.settings.lineDuration);
+		this.flashRenderer.render(mode, cssText, duration, container.ownerDocument.body);
+		this.startFlashCooldown(duration, null);
 	}
 
-	showLineFlashRightToLeft(editorView: EditorView) {
-		const cursor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
-		if (!cursor) return;
+	/**
+	 * Animation variables that blink the "Always on" cursor, or an empty string
+	 * if it doesn't blink. Obsidian's own blink preference wins: CodeMirror sets
+	 * its cursor layer's animation duration to 0ms when blinking is turned off.
+	 * The system's reduced motion setting turns blinking off too.
+	 */
+	private blinkStyle(view: EditorView): string {
+		const nativeLayer = view.scrollDOM.querySelector<HTMLElement>('.cm-cursorLayer');
+		if (nativeLayer?.style.animationDuration === '0ms') return '';
+		const win = view.dom.ownerDocument.defaultView;
+		if (win?.matchMedia?.('(prefers-reduced-motion: reduce)').matches) return '';
+		const animation = blinkAnimation(
+			this.settings.cursorBlink, this.settings.cursorBlinkRate, this.viewRegistry.get(view)?.blinkRestarts ?? 0
+		);
+		return animation ? `--cursor-cue-animation: ${animation};` : '';
+	}
 
-		const pos = (cursor as any).posToOffset(cursor.getCursor());
-		const coords = editorView.coordsAtPos(pos);
-		if (!coords) return;
+	/**
+	 * Layer for the smooth caret: each cursor is one element that glides to its
+	 * new position instead of a mark that jumps from character to character.
+	 * Drawn below the text, like CodeMirror's selection.
+	 */
+	createCaretLayer() {
+		const plugin = this;
+		return layer({
+			above: false,
+			class: 'cursor-cue-caret-layer',
+			// A few coordsAtPos per update, and the caret follows cursor, focus,
+			// flash and font metric changes alike. Runs in the update phase, so the
+			// cursor style sheet is written here rather than while measuring.
+			update: (update) => {
+				const enabled = plugin.settings.smoothCaret;
+				if (enabled && update.view.hasFocus) {
+					const markerColor = plugin.colorProvider.getColor(plugin.settings).color;
+					plugin.updateCursorStyles(
+						markerColor, plugin.colorProvider.getContrastColor(markerColor), adjustColorForThinBar(markerColor)
+					);
+				}
+				return plugin.caretLayerSwitch.needsRedraw(update.view, enabled);
+			},
+			markers: (view) => plugin.buildCaretMarkers(view)
+		});
+	}
 
-		const editorElement = editorView.contentDOM;
-		const editorRect = editorElement.getBoundingClientRect();
-		const lineHeight = editorView.defaultLineHeight;
-		const { color, opacity } = this.colorProvider.getColor(this.settings);
-		const rgb = hexToRgb(color);
-		// Calculate highlight distance based on flashSize setting (in character widths)
-		const fontSize = parseFloat(getComputedStyle(editorElement).fontSize) || 16;
-		const charWidth = fontSize * 0.6; // Approximate character width
-		const highlightDistance = this.settings.flashSize * charWidth; // Direct width in pixels
-		const highlightPercent = Math.min(100, (highlightDistance / editorRect.width) * 100);
-
-		const colorStop = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${opacity})`;
-		const cssText = `
-			position: fixed;
-			left: ${editorRect.left}px;
-			top: ${coords.top}px;
-			width: ${editorRect.width}px;
-			height: ${lineHeight}px;
-			background: linear-gradient(to left,
-				${colorStop} 0%,
-				rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${opacity * 0.5}) ${highlightPercent * 0.5}%,
-				rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0) ${highlightPercent}%,
-				rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0) 100%
-			);
-			pointer-events: none;
-			z-index: 1;
-			animation: flash-line-fade ${this.settings.lineDuration}ms ease-out;
-		`;
+	/**
+	 * Measure the smooth caret for every cursor. Runs in CM's read phase.
+	 */
+	private buildCaretMarkers(view: EditorView): CaretMarker[] {
+		const mode = this.settings.customCursorMode;
+		if (!this.settings.smoothCaret || mode === 'off' || !view.hasFocus) return [];
+		const viewState = this.viewRegistry.get(view);
+		const showFlash = mode === 'flash' && !!viewState?.flashActive;
+		if (mode === 'flash' && !showFlash) return [];
+
+		const markerColor = this.colorProvider.getColor(this.settings).color;
+		const style = this.settings.customCursorStyle;
+		const color = style === 'thinbar' ? adjustColorForThinBar(markerColor) : markerColor;
+		// Typing and held movement keys move the cursor faster than it could glide
+		const glide = Date.now() < this.typingQuietUntil || this.heldMoveKey?.repeated
+			? 0
+			: this.settings.smoothCaretDuration;
+		const animationStyle = showFlash && viewState
+			? this.flashAnimator.animationVariables(this.getFlashAnimation(), viewState.flashDuration)
+			: this.blinkStyle(view);
+
+		const scrollRect = view.scrollDOM.getBoundingClientRect();
+		const baseLeft = scrollRect.left - view.scrollDOM.scrollLeft * view.scaleX;
+		const baseTop = scrollRect.top - view.scrollDOM.scrollTop * view.scaleY;
+		const { ranges, mainIndex } = view.state.selection;
+		const distinguishMain = this.settings.distinguishMainCursor && ranges.length > 1;
+		const markers: CaretMarker[] = [];
+		ranges.forEach((range, index) => {
+			const pos = range.head;
+			// CodeMirror's own side: assoc -1 is the end of a wrapped row
+			const side = range.assoc < 0 || Date.now() < this.lineEndSignalledUntil ? -1 : 1;
+			const coords = view.coordsAtPos(pos, side);
+			if (!coords) return;
+			const cursorBox = this.getCursorBox(view, pos);
+
+			// Layer units are screen pixels: CSS lengths are scaled like the editor
+			let width = (style === 'block' ? cursorBox.width : style === 'bar' ? 3 : 2) * view.scaleX;
+			let left = coords.left;
+			const line = view.state.doc.lineAt(pos);
+			if (style === 'block' && pos < line.to && side > 0) {
+				// Cover the whole character, whichever way its text runs
+				const end = view.coordsAtPos(line.from + nextGraphemeBreak(line.text, pos - line.from), -1);
+				if (end && Math.abs(end.top - coords.top) < 1 && end.left !== coords.left) {
+					left = Math.min(coords.left, end.left);
+					width = Math.abs(end.left - coords.left);
+				}
+			}
 
-		this.flashRenderer.render('right', cssText, this.settings.lineDuration);
+			const bottom = coords.bottom + cursorBox.descent * view.scaleY;
+			const height = cursorBox.height * view.scaleY;
+			const isSecondary = distinguishMain && index !== mainIndex;
+			const classes = ['cursor-cue-caret', `is-${style}`];
+			if (isSecondary) classes.push('cursor-flash-secondary');
+			if (animationStyle) classes.push('cursor-cue-animated');
+			markers.push(new CaretMarker(
+				view.dom.ownerDocument,
+				{
+					left: left - baseLeft,
+					top: bottom - baseTop - height,
+					width,
+					height
+				},
+				classes.join(' '),
+				isSecondary ? fadeColor(color, SECONDARY_CURSOR_OPACITY) : color,
+				glide,
+				animationStyle,
+				showFlash && viewState ? viewState.flashStart : 0
+			));
+		});
+		return markers;
 	}
 
-	showCursorCenteredFlash(editorView: EditorView) {
-		const cursor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
-		if (!cursor) return;
-
-		const pos = (cursor as any).posToOffset(cursor.getCursor());
-		const coords = editorView.coordsAtPos(pos);
-		if (!coords) return;
+	/**
+	 * Layer that draws flashes inside the editor's scroller, so they stay on the
+	 * cursor line when the editor scrolls, reflows or resizes during the flash.
+	 */
+	createFlashLayer() {
+		const plugin = this;
+		return [
+			lineFlashField,
+			layer({
+				above: true,
+				class: 'cursor-cue-flash-layer',
+				update: (update) => update.docChanged || update.viewportChanged
+					|| update.startState.field(lineFlashField) !== update.state.field(lineFlashField),
+				markers: (view) => view.state.field(lineFlashField)
+					.map(flash => plugin.buildFlashMarker(view, flash))
+					.filter((marker): marker is FlashMarker => marker !== null)
+			})
+		];
+	}
 
-		const editorElement = editorView.contentDOM;
-		const editorRect = editorElement.getBoundingClientRect();
-		const lineHeight = editorView.defaultLineHeight;
-		const cursorX = coords.left - editorRect.left;
-		const editorWidth = editorRect.width;
-		const cursorPercent = (cursorX / editorWidth) * 100;
-		const { color, opacity } = this.colorProvider.getColor(this.settings);
-		const rgb = hexToRgb(color);
+	/**
+	 * Measure one flash for the flash layer. Runs in CM's read phase whenever the
+	 * layer is redrawn, so the flash follows its line for its whole duration.
+	 *
+	 * @returns The marker, or null while the flash's line is outside the viewport
+	 */
+	private buildFlashMarker(view: EditorView, flash: LineFlash): FlashMarker | null {
+		const coords = view.coordsAtPos(flash.pos);
+		if (!coords) return null;
+
+		// Layer coordinates are relative to the scrolled content, as in CM's own layers.
+		// CM scales layers by 1/scale, so their units are screen pixels: coordinates are
+		// used as measured, and CSS lengths (line height, font widths) are scaled.
+		const scrollRect = view.scrollDOM.getBoundingClientRect();
+		const baseLeft = scrollRect.left - view.scrollDOM.scrollLeft * view.scaleX;
+		const baseTop = scrollRect.top - view.scrollDOM.scrollTop * view.scaleY;
+		const editorRect = view.contentDOM.getBoundingClientRect();
+		const lineHeight = view.defaultLineHeight * view.scaleY;
+		const { rgb, opacity, duration } = flash;
+		const cursor = {
+			x: coords.left - baseLeft,
+			y: (coords.top + coords.bottom) / 2 - baseTop
+		};
 
-		const peakOpacity = opacity;
-		const fadeOpacity = opacity * 0.75;
-		// Calculate spread distance based on flashSize setting (in character widths)
-		const fontSize = parseFloat(getComputedStyle(editorElement).fontSize) || 16;
-		const charWidth = fontSize * 0.6; // Approximate character width
-		const spreadDistance = (this.settings.flashSize / 2) * charWidth; // flashSize/2 on each side
-		const spreadPercent = (spreadDistance / editorRect.width) * 100;
-		const leftEdge = Math.max(0, cursorPercent - spreadPercent);
-		const rightEdge = Math.min(100, cursorPercent + spreadPercent);
-
-		const cssText = `
-			position: fixed;
-			left: ${editorRect.left}px;
-			top: ${coords.top}px;
-			width: ${editorRect.width}px;
-			height: ${lineHeight}px;
-			background: linear-gradient(to right,
-				rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0) 0%,
-				rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0) ${leftEdge}%,
-				rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${fadeOpacity}) ${(leftEdge + cursorPercent) / 2}%,
-				rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${peakOpacity}) ${cursorPercent}%,
-				rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${fadeOpacity}) ${(cursorPercent + rightEdge) / 2}%,
-				rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0) ${rightEdge}%,
-				rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0) 100%
+		if (flash.mode === 'locator') {
+			const cssText = this.flashRenderer.buildLocatorCSS(
+				cursor,
+				lineHeight * 4,
+				`rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${opacity})`,
+				duration
 			);
-			pointer-events: none;
-			z-index: 1;
-			animation: flash-line-fade ${this.settings.lineDuration}ms ease-out;
-		`;
+			return this.flashRenderer.createMarker(flash.id, flash.mode, cssText, view.dom.ownerDocument);
+		}
 
-		this.flashRenderer.render('centered', cssText, this.settings.lineDuration);
+		if (flash.mode === 'trail') {
+			const cssText = this.buildTrailCSS(view, flash, cursor, { left: baseLeft, top: baseTop }, lineHeight);
+			return cssText ? this.flashRenderer.createMarker(flash.id, flash.mode, cssText, view.dom.ownerDocument) : null;
+		}
+
+		const line = {
+			left: editorRect.left - baseLeft,
+			top: coords.top - baseTop,
+			width: editorRect.width,
+			height: lineHeight
+		};
+		// Column, crosshair and spotlight reach over the visible part of the editor
+		const visibleTop = scrollRect.top - baseTop;
+		const area = { left: line.left, top: visibleTop, width: line.width, height: view.scrollDOM.clientHeight * view.scaleY };
+		// flashSize characters of the cursor line's font (headings are wider than body text)
+		const fontInfo = this.getFontAt(view, flash.pos);
+		const distance = (fontInfo
+			? this.getHighlightDistance(fontInfo)
+			: calculateHighlightDistance(this.settings.flashSize, view.defaultCharacterWidth)) * view.scaleX;
+
+		// "Left" and "right" fade from the line start and end, which swap on RTL lines
+		const shape = resolveHighlightSide(flash.mode, this.getLineDirection(view, flash.pos));
+		let cssText = this.flashRenderer.buildShapeCSS(shape, { line, cursor, area, distance }, { rgb, opacity });
+		cssText += this.flashAnimator.buildAnimationCSS(
+			this.getFlashAnimation(), duration, `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${opacity})`
+		);
+		return this.flashRenderer.createMarker(flash.id, flash.mode, cssText, view.dom.ownerDocument);
 	}
 
+	/**
+	 * CSS for a jump trail, in layer coordinates: a comet from the previous
+	 * cursor position while that is on screen, else an arrow at the edge the
+	 * cursor left by.
+	 *
+	 * @param to - The new cursor position
+	 * @param base - Viewport position of the layer's origin
+	 * @param lineHeight - Line height in layer units (screen pixels)
+	 */
+	private buildTrailCSS(
+		view: EditorView,
+		flash: LineFlash,
+		to: { x: number; y: number },
+		base: { left: number; top: number },
+		lineHeight: number
+	): string | null {
+		if (flash.from === undefined || flash.from === flash.pos) return null;
+		const { rgb, opacity, duration } = flash;
+		const visible = view.scrollDOM.getBoundingClientRect();
+		// null when the old position is outside the rendered viewport
+		const source = view.coordsAtPos(flash.from);
+		const sourceX = source ? source.left - base.left : to.x;
+
+		if (source && source.bottom > visible.top && source.top < visible.bottom) {
+			const from = { x: sourceX, y: (source.top + source.bottom) / 2 - base.top };
+			return this.flashRenderer.buildTrailCSS(from, to, Math.max(2, lineHeight / 4), { rgb, opacity }, duration);
+		}
 
+		const cameFromAbove = flash.from < flash.pos;
+		const margin = 4;
+		const y = cameFromAbove
+			? visible.top - base.top + margin
+			: visible.bottom - base.top - lineHeight - margin;
+		return this.flashRenderer.buildEdgeArrowCSS(
+			{ x: sourceX, y }, cameFromAbove ? 'up' : 'down', lineHeight, { rgb, opacity }, duration
+		);
+	}
 
 	private updateCursorStyles(markerColor: string, contrastColor: string, thinBarColor?: string): void {
-		if (this.styleElement) {
-			this.styleElement.remove();
-		}
-		
-		this.styleElement = document.createElement('style');
-		this.styleElement.id = 'cursor-flash-dynamic-styles';
-		
 		const tbColor = thinBarColor ?? markerColor;
+		const ghostColor = fadeColor(markerColor, this.settings.ghostCursorOpacity);
 		
 		// Block cursor: highlight the character with a background color.
 		// Bar/thinbar cursor: draw a thin vertical bar before the character using ::before pseudo-element.
@@ -602,10 +1755,14 @@ export default class VisibleCursorPlugin extends Plugin {
 		// text characters — this prevents the cursor decoration from affecting word-wrap.
 		const styleContent = `
 			.cursor-flash-block-mark {
+				--cursor-cue-color: ${markerColor};
 				background-color: ${markerColor} !important;
 				color: ${contrastColor} !important;
 				position: relative;
 			}
+			.cursor-flash-bar-mark, .cursor-flash-bar {
+				--cursor-cue-color: ${markerColor};
+			}
 			.cursor-flash-bar-mark {
 				position: relative;
 			}
@@ -621,6 +1778,7 @@ export default class VisibleCursorPlugin extends Plugin {
 				z-index: 2;
 			}
 			.cursor-flash-thinbar-mark {
+				--cursor-cue-color: ${tbColor};
 				position: relative;
 			}
 			.cursor-flash-thinbar-mark::before {
@@ -634,19 +1792,59 @@ export default class VisibleCursorPlugin extends Plugin {
 				pointer-events: none;
 				z-index: 2;
 			}
+			.cursor-ghost-hollow-mark {
+				box-shadow: inset 0 0 0 1.5px ${ghostColor};
+				border-radius: 1px;
+			}
+			.cursor-ghost-bar-mark {
+				position: relative;
+			}
+			.cursor-ghost-bar-mark::before {
+				content: '';
+				position: absolute;
+				left: 0;
+				top: 0;
+				bottom: 0;
+				width: 2px;
+				background-color: ${ghostColor};
+				pointer-events: none;
+			}
+			.cursor-flash-block-mark.cursor-flash-secondary {
+				--cursor-cue-color: ${fadeColor(markerColor, SECONDARY_CURSOR_OPACITY)};
+				background-color: ${fadeColor(markerColor, SECONDARY_CURSOR_OPACITY)} !important;
+			}
+			.cursor-flash-bar-mark.cursor-flash-secondary::before {
+				background-color: ${fadeColor(markerColor, SECONDARY_CURSOR_OPACITY)};
+			}
+			.cursor-flash-thinbar-mark.cursor-flash-secondary::before {
+				background-color: ${fadeColor(tbColor, SECONDARY_CURSOR_OPACITY)};
+			}
+			/* Animated block cursors paint their color on ::after (styles.css), so the text never fades */
+			.cursor-flash-block-mark.cursor-cue-animated {
+				background-color: transparent !important;
+				color: inherit !important;
+			}
 		`;
 		
-		this.styleElement.textContent = styleContent;
-		document.head.appendChild(this.styleElement);
+		// Decorations are rebuilt on every update, so skip rewriting identical CSS
+		if (styleContent === this.cursorStyleContent) return;
+		this.cursorStyleContent = styleContent;
+		for (const styleElement of this.cursorStyleElements.values()) {
+			styleElement.textContent = styleContent;
+		}
 	}
 
 
 
+	/**
+	 * Rebuild cursor decorations and cues in every live editor, focused or not
+	 * (unfocused editors draw the ghost cursor).
+	 */
 	refreshDecorations() {
-		if (this.decorationView && this.decorationView.hasFocus) {
+		for (const view of this.viewRegistry.views()) {
 			// Force a rebuild by dispatching with selection change to trigger update
-			this.decorationView.dispatch({
-				selection: this.decorationView.state.selection
+			view.dispatch({
+				selection: view.state.selection
 			});
 		}
 	}
@@ -677,9 +1875,9 @@ export default class VisibleCursorPlugin extends Plugin {
 	}
 
 	onunload() {
-		if (this.styleElement) {
-			this.styleElement.remove();
-		}
+		// Removes the style element and key listeners from every window
+		this.windowTracker.clear();
+		this.viewRegistry.clear();
 		if (this.flashTimeout) {
 			clearTimeout(this.flashTimeout);
 		}
@@ -689,14 +1887,5 @@ export default class VisibleCursorPlugin extends Plugin {
 		if (this.scrollDebounceTimer) {
 			clearTimeout(this.scrollDebounceTimer);
 		}
-		if (this.endKeyTimer) {
-			clearTimeout(this.endKeyTimer);
-		}
-		// Remove global event listeners added in onload
-		window.removeEventListener('pointerdown', this.boundStartFence, { capture: true });
-		window.removeEventListener('pointerup', this.boundEndFenceSoon, { capture: true });
-		window.removeEventListener('pointercancel', this.boundEndFenceSoon, { capture: true });
-		window.removeEventListener('click', this.boundClickEndFence, { capture: true });
-		window.removeEventListener('keydown', this.boundKeydownCapture, { capture: true });
 	}
 }
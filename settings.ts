@@ -1,32 +1,84 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 
 import VisibleCursorPlugin from './main';
+import type { FlashEffect, FlashEasing } from './src/services/flashAnimation';
+import type { CursorBlink } from './src/utils';
 
 export interface VisibleCursorPluginSettings {
 	customCursorMode: 'always' | 'flash' | 'off';
 	customCursorStyle: 'block' | 'bar' | 'thinbar';
-	lineHighlightMode: 'left' | 'centered' | 'right' | 'off';
+	cursorBlink: CursorBlink;
+	cursorBlinkRate: number;
+	smoothCaret: boolean;
+	smoothCaretDuration: number;
+	distinguishMainCursor: boolean;
+	showGhostCursor: boolean;
+	ghostCursorStyle: 'hollow' | 'bar';
+	ghostCursorOpacity: number;
+	flashAllCursors: boolean;
+	showJumpTrail: boolean;
+	lineHighlightMode: 'left' | 'centered' | 'right' | 'band' | 'column' | 'crosshair' | 'spotlight' | 'off';
+	showOffscreenIndicator: boolean;
+	showScrollbarMarker: boolean;
 	cursorCustomColorLight: string;
 	cursorCustomColorDark: string;
 	lineDuration: number;
 	flashDuration: number;
+	flashEffect: FlashEffect;
+	flashEasing: FlashEasing;
+	flashRepeat: number;
+	flashIntensity: number;
 	useThemeColors: boolean;
 	flashOnWindowScrolls: boolean;
 	flashOnWindowChanges: boolean;
+	flashInReadingView: boolean;
+	flashOnJumpKeys: boolean;
+	jumpKeys: string[];
+	flashOnLongRepeats: boolean;
+	repeatLineThreshold: number;
+	repeatCharThreshold: number;
+	flashOnDistantJumps: boolean;
+	jumpDistanceLines: number;
+	jumpDistancePixels: number;
 	flashSize: number;
 }
 
 export const DEFAULT_SETTINGS: VisibleCursorPluginSettings = {
 	customCursorMode: 'always',
 	customCursorStyle: 'block',
+	cursorBlink: 'none',
+	cursorBlinkRate: 1200,
+	smoothCaret: false,
+	smoothCaretDuration: 80,
+	distinguishMainCursor: true,
+	showGhostCursor: false,
+	ghostCursorStyle: 'hollow',
+	ghostCursorOpacity: 0.5,
+	flashAllCursors: false,
+	showJumpTrail: false,
 	lineHighlightMode: 'centered',
+	showOffscreenIndicator: true,
+	showScrollbarMarker: false,
 	cursorCustomColorLight: '#6496ff',
 	cursorCustomColorDark: '#6496ff',
 	lineDuration: 1000,
 	flashDuration: 1000,
+	flashEffect: 'fade',
+	flashEasing: 'ease-out',
+	flashRepeat: 1,
+	flashIntensity: 1,
 	useThemeColors: true,
 	flashOnWindowScrolls: true,
 	flashOnWindowChanges: true,
+	flashInReadingView: true,
+	flashOnJumpKeys: true,
+	jumpKeys: ['Home', 'End', 'Ctrl+Home', 'Ctrl+End', 'Ctrl+A', 'Ctrl+E'],
+	flashOnLongRepeats: true,
+	repeatLineThreshold: 10,
+	repeatCharThreshold: 40,
+	flashOnDistantJumps: true,
+	jumpDistanceLines: 10,
+	jumpDistancePixels: 400,
 	flashSize: 15
 }
 
@@ -78,6 +130,139 @@ export class VisibleCursorSettingTab extends PluginSettingTab {
 					this.plugin.refreshDecorations();
 				}));
 
+		new Setting(containerEl)
+			.setName('Cursor blink')
+			.setDesc('Blink the "Always on" cursor; it stays solid while you type or move, and never blinks if Obsidian\'s own cursor doesn\'t')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'None')
+				.addOption('classic', 'Classic')
+				.addOption('smooth', 'Smooth fade')
+				.addOption('phase', 'Phase (shrink and expand)')
+				.setValue(this.plugin.settings.cursorBlink)
+				.onChange(async (value: CursorBlink) => {
+					this.plugin.settings.cursorBlink = value;
+					await this.plugin.saveSettings();
+					this.plugin.refreshDecorations();
+					this.display();
+				}));
+
+		if (this.plugin.settings.cursorBlink !== 'none') {
+			const blinkRateSetting = new Setting(containerEl)
+				.setName('Blink rate')
+				.setDesc(`Length of one blink, on and off (0.4s - 2s) - ${(this.plugin.settings.cursorBlinkRate / 1000).toFixed(1)}s`)
+				.addSlider(slider => slider
+					.setLimits(400, 2000, 100)
+					.setValue(this.plugin.settings.cursorBlinkRate)
+					.setDynamicTooltip()
+					.onChange(async (value: number) => {
+						this.plugin.settings.cursorBlinkRate = value;
+						blinkRateSetting.setDesc(`Length of one blink, on and off (0.4s - 2s) - ${(value / 1000).toFixed(1)}s`);
+						await this.plugin.saveSettings();
+						this.plugin.refreshDecorations();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Smooth caret')
+			.setDesc('Glide the custom cursor to its new position instead of jumping (not while typing)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.smoothCaret)
+				.onChange(async (value) => {
+					this.plugin.settings.smoothCaret = value;
+					await this.plugin.saveSettings();
+					this.plugin.refreshDecorations();
+					this.display();
+				}));
+
+		if (this.plugin.settings.smoothCaret) {
+			const glideSetting = new Setting(containerEl)
+				.setName('Glide duration')
+				.setDesc(`How long the cursor takes to glide to its new position (20-300ms) - ${this.plugin.settings.smoothCaretDuration}ms`)
+				.addSlider(slider => slider
+					.setLimits(20, 300, 10)
+					.setValue(this.plugin.settings.smoothCaretDuration)
+					.setDynamicTooltip()
+					.onChange(async (value: number) => {
+						this.plugin.settings.smoothCaretDuration = value;
+						glideSetting.setDesc(`How long the cursor takes to glide to its new position (20-300ms) - ${value}ms`);
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Distinguish main cursor')
+			.setDesc('With multiple cursors, draw the secondary cursors faded so the main cursor stands out')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.distinguishMainCursor)
+				.onChange(async (value) => {
+					this.plugin.settings.distinguishMainCursor = value;
+					await this.plugin.saveSettings();
+					this.plugin.refreshDecorations();
+				}));
+
+		new Setting(containerEl)
+			.setName('Ghost cursor in unfocused editors')
+			.setDesc('Show a dimmed cursor in split panes and other editors that don\'t have focus, so you can see where you left off')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showGhostCursor)
+				.onChange(async (value) => {
+					this.plugin.settings.showGhostCursor = value;
+					await this.plugin.saveSettings();
+					this.plugin.refreshDecorations();
+					this.display();
+				}));
+
+		if (this.plugin.settings.showGhostCursor) {
+			new Setting(containerEl)
+				.setName('Ghost cursor style')
+				.setDesc('Visual style of the cursor in unfocused editors')
+				.addDropdown(dropdown => dropdown
+					.addOption('hollow', 'Hollow block')
+					.addOption('bar', 'Faded bar')
+					.setValue(this.plugin.settings.ghostCursorStyle)
+					.onChange(async (value: 'hollow' | 'bar') => {
+						this.plugin.settings.ghostCursorStyle = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshDecorations();
+					}));
+
+			const ghostOpacitySetting = new Setting(containerEl)
+				.setName('Ghost cursor opacity')
+				.setDesc(`How strongly the ghost cursor is drawn (10%-100%) - ${Math.round(this.plugin.settings.ghostCursorOpacity * 100)}%`)
+				.addSlider(slider => slider
+					.setLimits(0.1, 1, 0.05)
+					.setValue(this.plugin.settings.ghostCursorOpacity)
+					.setDynamicTooltip()
+					.onChange(async (value: number) => {
+						this.plugin.settings.ghostCursorOpacity = value;
+						ghostOpacitySetting.setDesc(`How strongly the ghost cursor is drawn (10%-100%) - ${Math.round(value * 100)}%`);
+						await this.plugin.saveSettings();
+						this.plugin.refreshDecorations();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Off-screen cursor indicator')
+			.setDesc('When the cursor is scrolled out of view, show an arrow at the top or bottom of the editor. Click it to scroll back to the cursor.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showOffscreenIndicator)
+				.onChange(async (value) => {
+					this.plugin.settings.showOffscreenIndicator = value;
+					await this.plugin.saveSettings();
+					this.plugin.refreshDecorations();
+				}));
+
+		new Setting(containerEl)
+			.setName('Scrollbar cursor marker')
+			.setDesc('Mark the cursor line\'s position in the editor\'s scrollbar. The marker grows briefly whenever the cursor flashes.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showScrollbarMarker)
+				.onChange(async (value) => {
+					this.plugin.settings.showScrollbarMarker = value;
+					await this.plugin.saveSettings();
+					this.plugin.refreshDecorations();
+				}));
+
 		// ===========================================
 		// FLASH EFFECT
 		// ===========================================
@@ -87,14 +272,18 @@ export class VisibleCursorSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Line highlight')
-			.setDesc('Show a gradient highlight on the current line during a flash')
+			.setDesc('Show a gradient highlight on the current line (or through the cursor) during a flash')
 			.addDropdown(dropdown => dropdown
 				.addOption('off', 'Off')
 				.addOption('centered', 'Centered around cursor')
 				.addOption('left', 'Left to Right')
 				.addOption('right', 'Right to Left')
+				.addOption('band', 'Full line band')
+				.addOption('column', 'Column beam')
+				.addOption('crosshair', 'Crosshair')
+				.addOption('spotlight', 'Spotlight')
 				.setValue(this.plugin.settings.lineHighlightMode)
-				.onChange(async (value: 'left' | 'centered' | 'right' | 'off') => {
+				.onChange(async (value: VisibleCursorPluginSettings['lineHighlightMode']) => {
 					this.plugin.settings.lineHighlightMode = value;
 					await this.plugin.saveSettings();
 				}));
@@ -113,6 +302,83 @@ export class VisibleCursorSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Flash animation')
+			.setDesc('How the line highlight and the \'Only during flash\' cursor animate')
+			.addDropdown(dropdown => dropdown
+				.addOption('fade', 'Fade out')
+				.addOption('pulse', 'Pulse')
+				.addOption('double-blink', 'Double blink')
+				.addOption('grow', 'Grow from cursor')
+				.addOption('shrink', 'Shrink to cursor')
+				.addOption('ripple', 'Ripple ring')
+				.setValue(this.plugin.settings.flashEffect)
+				.onChange(async (value: FlashEffect) => {
+					this.plugin.settings.flashEffect = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Animation easing')
+			.setDesc('Timing curve of the flash animation')
+			.addDropdown(dropdown => dropdown
+				.addOption('ease-out', 'Ease out')
+				.addOption('ease-in', 'Ease in')
+				.addOption('ease-in-out', 'Ease in and out')
+				.addOption('linear', 'Linear')
+				.addOption('bounce', 'Bounce')
+				.setValue(this.plugin.settings.flashEasing)
+				.onChange(async (value: FlashEasing) => {
+					this.plugin.settings.flashEasing = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const flashRepeatSetting = new Setting(containerEl)
+			.setName('Animation repeats')
+			.setDesc(`How many times the animation plays within the flash duration (1-4) - ${this.plugin.settings.flashRepeat}x`)
+			.addSlider(slider => slider
+				.setLimits(1, 4, 1)
+				.setValue(this.plugin.settings.flashRepeat)
+				.setDynamicTooltip()
+				.onChange(async (value: number) => {
+					this.plugin.settings.flashRepeat = value;
+					flashRepeatSetting.setDesc(`How many times the animation plays within the flash duration (1-4) - ${value}x`);
+					await this.plugin.saveSettings();
+				}));
+
+		const flashIntensitySetting = new Setting(containerEl)
+			.setName('Animation intensity')
+			.setDesc(`Peak strength of the flash animation (20%-100%) - ${Math.round(this.plugin.settings.flashIntensity * 100)}%`)
+			.addSlider(slider => slider
+				.setLimits(0.2, 1, 0.05)
+				.setValue(this.plugin.settings.flashIntensity)
+				.setDynamicTooltip()
+				.onChange(async (value: number) => {
+					this.plugin.settings.flashIntensity = value;
+					flashIntensitySetting.setDesc(`Peak strength of the flash animation (20%-100%) - ${Math.round(value * 100)}%`);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Flash all cursors')
+			.setDesc('With multiple cursors, flash every cursor line instead of only the main cursor')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.flashAllCursors)
+				.onChange(async (value) => {
+					this.plugin.settings.flashAllCursors = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Jump trail')
+			.setDesc('When the cursor jumps, draw a fading trail from where it was (an arrow at the editor edge if that is off-screen)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showJumpTrail)
+				.onChange(async (value) => {
+					this.plugin.settings.showJumpTrail = value;
+					await this.plugin.saveSettings();
+				}));
+
 		const flashSizeSetting = new Setting(containerEl)
 			.setName('Flash size')
 			.setDesc(`Width of the flash (4-30 characters) - ${this.plugin.settings.flashSize}ch`)
@@ -153,6 +419,121 @@ export class VisibleCursorSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('In Reading view')
+			.setDesc('On scroll and file switch in Reading view, flash the paragraph you last clicked, or the block at the top of the view')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.flashInReadingView)
+				.onChange(async (value) => {
+					this.plugin.settings.flashInReadingView = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('After cursor jump keys')
+			.setDesc('Show flash after keys that move the cursor a long way (Home, End, Ctrl+Home, ...)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.flashOnJumpKeys)
+				.onChange(async (value) => {
+					this.plugin.settings.flashOnJumpKeys = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.flashOnJumpKeys) {
+			new Setting(containerEl)
+				.setName('Jump keys')
+				.setDesc('One key chord per line, e.g. Ctrl+Home or Alt+Shift+G. Modifiers: Ctrl, Alt, Shift, Meta (Cmd).')
+				.addTextArea(text => text
+					.setValue(this.plugin.settings.jumpKeys.join('\n'))
+					.onChange(async (value) => {
+						this.plugin.settings.jumpKeys = value
+							.split('\n')
+							.map(chord => chord.trim())
+							.filter(chord => chord.length > 0);
+						this.plugin.updateJumpKeyChords();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('On long single move repeats')
+			.setDesc('Show flash when you release a held arrow or Page Up/Down key after it moved the cursor a long way')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.flashOnLongRepeats)
+				.onChange(async (value) => {
+					this.plugin.settings.flashOnLongRepeats = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.flashOnLongRepeats) {
+			const repeatLinesSetting = new Setting(containerEl)
+				.setName('Repeat distance (lines)')
+				.setDesc(`Lines a held Up/Down/Page key must move the cursor before it flashes (2-50) - ${this.plugin.settings.repeatLineThreshold} lines`)
+				.addSlider(slider => slider
+					.setLimits(2, 50, 1)
+					.setValue(this.plugin.settings.repeatLineThreshold)
+					.setDynamicTooltip()
+					.onChange(async (value: number) => {
+						this.plugin.settings.repeatLineThreshold = value;
+						repeatLinesSetting.setDesc(`Lines a held Up/Down/Page key must move the cursor before it flashes (2-50) - ${value} lines`);
+						await this.plugin.saveSettings();
+					}));
+
+			const repeatCharsSetting = new Setting(containerEl)
+				.setName('Repeat distance (characters)')
+				.setDesc(`Characters a held Left/Right key must move the cursor before it flashes (5-200) - ${this.plugin.settings.repeatCharThreshold}ch`)
+				.addSlider(slider => slider
+					.setLimits(5, 200, 5)
+					.setValue(this.plugin.settings.repeatCharThreshold)
+					.setDynamicTooltip()
+					.onChange(async (value: number) => {
+						this.plugin.settings.repeatCharThreshold = value;
+						repeatCharsSetting.setDesc(`Characters a held Left/Right key must move the cursor before it flashes (5-200) - ${value}ch`);
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('On distant cursor jumps')
+			.setDesc('Show flash whenever the cursor jumps far in one step (Go to line, undo, outline or backlink clicks, other plugins) and on every search match. Clicks in the editor, typing and single arrow moves stay quiet.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.flashOnDistantJumps)
+				.onChange(async (value) => {
+					this.plugin.settings.flashOnDistantJumps = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.flashOnDistantJumps) {
+			const jumpLinesSetting = new Setting(containerEl)
+				.setName('Jump distance (lines)')
+				.setDesc(`Flash when the cursor moves more than this many lines at once (2-100) - ${this.plugin.settings.jumpDistanceLines} lines`)
+				.addSlider(slider => slider
+					.setLimits(2, 100, 1)
+					.setValue(this.plugin.settings.jumpDistanceLines)
+					.setDynamicTooltip()
+					.onChange(async (value: number) => {
+						this.plugin.settings.jumpDistanceLines = value;
+						jumpLinesSetting.setDesc(`Flash when the cursor moves more than this many lines at once (2-100) - ${value} lines`);
+						await this.plugin.saveSettings();
+					}));
+
+			const jumpPixelsSetting = new Setting(containerEl)
+				.setName('Jump distance (pixels)')
+				.setDesc(`Flash when the cursor moves more than this many pixels vertically at once, e.g. within a long wrapped paragraph (100-2000) - ${this.plugin.settings.jumpDistancePixels}px`)
+				.addSlider(slider => slider
+					.setLimits(100, 2000, 50)
+					.setValue(this.plugin.settings.jumpDistancePixels)
+					.setDynamicTooltip()
+					.onChange(async (value: number) => {
+						this.plugin.settings.jumpDistancePixels = value;
+						jumpPixelsSetting.setDesc(`Flash when the cursor moves more than this many pixels vertically at once, e.g. within a long wrapped paragraph (100-2000) - ${value}px`);
+						await this.plugin.saveSettings();
+					}));
+		}
+
 		// ===========================================
 		// COLORS
 		// ===========================================
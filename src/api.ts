@@ -0,0 +1,150 @@
+/**
+ * Public API for other plugins
+ *
+ * Other plugins reach it through the plugin instance:
+ *
+ *     const cues = app.plugins.plugins['visible-cursor']?.api;
+ *     if (cues?.version >= 1) cues.flash(editorView, { trigger: 'my-plugin' });
+ *
+ * The API is versioned: new members may be added within a version, but
+ * existing members only change meaning when `version` is bumped.
+ */
+import { Events, type EventRef } from 'obsidian';
+import type { EditorView } from '@codemirror/view';
+import type { VisibleCursorPluginSettings } from '../settings';
+
+/** Current API version. Bump when an existing member changes behavior. */
+export const API_VERSION = 1;
+
+/** A line highlight shape, or 'locator' for the ring that converges on the cursor */
+export type FlashStyle = Exclude<VisibleCursorPluginSettings['lineHighlightMode'], 'off'> | 'locator';
+
+/** Every FlashStyle, to check styles passed in by other plugins */
+const FLASH_STYLES: Record<FlashStyle, true> = {
+	left: true,
+	right: true,
+	centered: true,
+	band: true,
+	column: true,
+	crosshair: true,
+	spotlight: true,
+	locator: true
+};
+
+/**
+ * Options for a flash requested through the API.
+ * Anything omitted falls back to the user's settings.
+ */
+export interface FlashOptions {
+	/** Label reported in flash events, e.g. the calling plugin's id. Defaults to 'api'. */
+	trigger?: string;
+	/** Line highlight shape for this flash only */
+	style?: FlashStyle;
+	/** Flash duration in milliseconds for this flash only; must be positive */
+	duration?: number;
+}
+
+/**
+ * Payload of the 'flash-start' and 'flash-end' events
+ */
+export interface FlashEventInfo {
+	view: EditorView;
+	trigger: string;
+	duration: number;
+}
+
+/**
+ * What the plugin must provide for the API to drive it
+ */
+export interface CursorCueHost {
+	showFlash(view?: EditorView, options?: FlashOptions): void;
+	suppressFlashes(ms: number): void;
+	signalLineEnd(): void;
+}
+
+export interface VisibleCursorApi {
+	readonly version: number;
+	/** Flash the cursor now, bypassing the automatic trigger gates. Defaults to the active editor. */
+	flash(view?: EditorView, options?: FlashOptions): void;
+	/** Suppress automatic flashes (scroll, jumps, pane switches) for the next `ms` milliseconds */
+	suppress(ms: number): void;
+	/**
+	 * Tell the cursor renderer that the cursor was just moved to the end of a
+	 * visual line, so a soft-wrap end is drawn at the end of the wrapped row.
+	 * Call it just before dispatching a "move to line end" selection change.
+	 */
+	signalLineEnd(): void;
+	on(name: 'flash-start' | 'flash-end', callback: (info: FlashEventInfo) => void): EventRef;
+	offref(ref: EventRef): void;
+}
+
+/**
+ * Default implementation handed out as `plugin.api`
+ */
+export class CursorCuesApi extends Events implements VisibleCursorApi {
+	readonly version = API_VERSION;
+	// The flash whose flash-start was sent last and whose flash-end is still due
+	private currentFlash: FlashEventInfo | null = null;
+
+	constructor(private host: CursorCueHost) {
+		super();
+	}
+
+	flash(view?: EditorView, options?: FlashOptions): void {
+		this.host.showFlash(view, options && this.sanitizeOptions(options));
+	}
+
+	suppress(ms: number): void {
+		this.host.suppressFlashes(ms);
+	}
+
+	signalLineEnd(): void {
+		this.host.signalLineEnd();
+	}
+
+	on(name: 'flash-start' | 'flash-end', callback: (info: FlashEventInfo) => void): EventRef {
+		return super.on(name, callback as (...data: unknown[]) => unknown);
+	}
+
+	/**
+	 * Report a flash starting. Ends the previous flash first, so every
+	 * flash-start gets exactly one flash-end even when a new flash cuts it short.
+	 * Called by the plugin; not part of VisibleCursorApi.
+	 */
+	flashStarted(info: FlashEventInfo): void {
+		this.flashEnded();
+		this.currentFlash = info;
+		this.trigger('flash-start', info);
+	}
+
+	/**
+	 * Report a flash ending. Called by the plugin; not part of VisibleCursorApi.
+	 *
+	 * @param info - The flash that ended; nothing is sent if it was already ended.
+	 *               Omit to end whichever flash is running.
+	 */
+	flashEnded(info?: FlashEventInfo): void {
+		const current = this.currentFlash;
+		if (!current || (info && info !== current)) return;
+		this.currentFlash = null;
+		this.trigger('flash-end', current);
+	}
+
+	/**
+	 * Drop option values other plugins got wrong, so they fall back to the
+	 * user's settings instead of breaking the flash
+	 */
+	private sanitizeOptions(options: FlashOptions): FlashOptions {
+		const sanitized: FlashOptions = {};
+		if (typeof options.trigger === 'string' && options.trigger) {
+			sanitized.trigger = options.trigger;
+		}
+		if (typeof options.style === 'string' && Object.prototype.hasOwnProperty.call(FLASH_STYLES, options.style)) {
+			sanitized.style = options.style;
+		}
+		if (typeof options.duration === 'number' && Number.isFinite(options.duration) && options.duration > 0) {
+			sanitized.duration = options.duration;
+		}
+		return sanitized;
+	}
+}
@@ -5,6 +5,14 @@ import {
   getContrastRatio,
 } from '../utils';
 
+/**
+ * The subset of plugin settings that color decisions depend on
+ */
+export type ColorSettings = Pick<
+  VisibleCursorPluginSettings,
+  'useThemeColors' | 'customCursorStyle' | 'cursorCustomColorLight' | 'cursorCustomColorDark'
+>;
+
 /**
  * Service for managing color operations
  * Encapsulates all color-related logic and theme detection
@@ -14,7 +22,7 @@ export class ColorProvider {
   /**
    * Get the cursor color based on settings and theme
    */
-  getColor(settings: VisibleCursorPluginSettings): { color: string; opacity: number } {
+  getColor(settings: ColorSettings): { color: string; opacity: number } {
     if (!settings.useThemeColors) {
       return this.getCustomColor(settings);
     }
@@ -142,7 +150,7 @@ export class ColorProvider {
   /**
    * Get custom (non-theme) color based on current theme
    */
-  private getCustomColor(settings: VisibleCursorPluginSettings): { color: string; opacity: number } {
+  private getCustomColor(settings: ColorSettings): { color: string; opacity: number } {
     const isDark = this.isDarkTheme();
     const color = isDark ? settings.cursorCustomColorDark : settings.cursorCustomColorLight;
     return { color, opacity: 0.8 };
@@ -152,7 +160,7 @@ export class ColorProvider {
    * Get themed color with adjustments for bar vs block style
    */
   private getThemedColor(
-    settings: VisibleCursorPluginSettings,
+    settings: ColorSettings,
     accentColor: string
   ): { color: string; opacity: number } {
     if (settings.customCursorStyle === 'bar') {
@@ -0,0 +1,72 @@
+/** How a flash animates (keyframes flash-effect-* in styles.css) */
+export type FlashEffect = 'fade' | 'pulse' | 'double-blink' | 'grow' | 'shrink' | 'ripple';
+
+/** Timing curve of each repeat */
+export type FlashEasing = 'ease-out' | 'ease-in' | 'ease-in-out' | 'linear' | 'bounce';
+
+/**
+ * A flash animation as configured in the settings
+ */
+export interface FlashAnimation {
+  effect: FlashEffect;
+  easing: FlashEasing;
+  /** How many times the effect plays within the flash duration (1 or more) */
+  repeat: number;
+  /** Peak opacity of the effect, from 0 to 1 */
+  intensity: number;
+}
+
+const EASING_FUNCTIONS: Record<FlashEasing, string> = {
+  'ease-out': 'ease-out',
+  'ease-in': 'ease-in',
+  'ease-in-out': 'ease-in-out',
+  'linear': 'linear',
+  // Overshoots slightly, so grow and shrink bounce at the cursor
+  'bounce': 'cubic-bezier(0.34, 1.56, 0.64, 1)'
+};
+
+/**
+ * Service for flash animations
+ * Turns an effect, easing, repeat count and intensity into CSS for the line
+ * overlay and for the "Only during flash" cursor, so both animate the same way.
+ * Repeats share the flash duration, so a flash always ends on time
+ */
+export class FlashAnimator {
+  /**
+   * The CSS `animation` value for a flash
+   *
+   * @param animation - Effect, easing, repeat and intensity
+   * @param duration - Length of the whole flash in milliseconds
+   * @param elapsed - How far into the flash the animated element appears; cursor
+   *                  marks are redrawn while they move, and join the running animation
+   */
+  animationValue(animation: FlashAnimation, duration: number, elapsed: number = 0): string {
+    const repeat = Math.max(1, Math.round(animation.repeat));
+    const easing = EASING_FUNCTIONS[animation.easing] ?? EASING_FUNCTIONS['ease-out'];
+    const delay = elapsed > 0 ? -Math.min(elapsed, duration) : 0;
+    return `flash-effect-${animation.effect} ${duration / repeat}ms ${easing} ${delay}ms ${repeat} both`;
+  }
+
+  /**
+   * CSS variables carrying a flash animation; cursor marks set these and the
+   * rules in styles.css animate only the cursor's own parts (never the text)
+   */
+  animationVariables(animation: FlashAnimation, duration: number, elapsed: number = 0): string {
+    return `--cursor-cue-intensity: ${this.clampIntensity(animation.intensity)}; `
+      + `--cursor-cue-animation: ${this.animationValue(animation, duration, elapsed)};`;
+  }
+
+  /**
+   * CSS declarations that animate a whole element (appended to a flash's cssText)
+   *
+   * @param color - Color of the ripple ring, as a CSS color
+   */
+  buildAnimationCSS(animation: FlashAnimation, duration: number, color: string): string {
+    return `${this.animationVariables(animation, duration)} --cursor-cue-color: ${color}; `
+      + 'animation: var(--cursor-cue-animation);';
+  }
+
+  private clampIntensity(intensity: number): number {
+    return Number.isFinite(intensity) ? Math.min(1, Math.max(0, intensity)) : 1;
+  }
+}
@@ -1,119 +1,384 @@
+import type { LayerMarker } from '@codemirror/view';
+
+/** Line highlight shapes, all drawn with buildGradientCSS */
+export type GradientShape = 'left' | 'right' | 'centered' | 'band' | 'column' | 'crosshair' | 'spotlight';
+
+export type FlashShape = GradientShape | 'locator' | 'trail';
+
+/** A rectangle in the flash host's coordinates, in CSS pixels */
+export interface FlashBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where a flash goes, in the flash host's coordinates
+ */
+export interface FlashGeometry {
+  /** The cursor line (a block in Reading view), across the full text width */
+  line: FlashBox;
+  /** The cursor, or where the reader clicked */
+  cursor: { x: number; y: number };
+  /** The visible part of the editor, for shapes that reach beyond the cursor line */
+  area: FlashBox;
+  /** Width of the highlight: flashSize characters of the line's font */
+  distance: number;
+}
+
+/** Flash color; gradient stops scale `opacity` */
+export interface FlashColor {
+  rgb: { r: number; g: number; b: number };
+  opacity: number;
+}
+
+/**
+ * One color stop of a gradient
+ */
+export interface GradientStop {
+  /** Position along the gradient (or radius), in percent */
+  at: number;
+  /** Fraction of the flash opacity (0 is transparent) */
+  strength: number;
+  /** Stop color, if not the flash color (e.g. black to dim) */
+  rgb?: { r: number; g: number; b: number };
+}
+
+/**
+ * One background layer of a flash element
+ */
+export type GradientLayer = {
+  stops: GradientStop[];
+  /** Part of the element the layer covers, relative to the element; all of it if omitted */
+  area?: FlashBox;
+} & (
+  | { direction: 'to right' | 'to left' | 'to bottom' }
+  | { center: { x: number; y: number }; radius: number }
+);
+
+function percentOf(part: number, whole: number): number {
+  return whole > 0 ? (part / whole) * 100 : 0;
+}
+
+function flashClassName(mode: FlashShape): string {
+  if (mode === 'locator') return 'obsidian-flash-locator';
+  if (mode === 'trail') return 'obsidian-flash-trail';
+  return 'obsidian-flash-line';
+}
+
+/**
+ * One flash drawn in an editor's flash layer
+ * The layer re-measures markers whenever the editor scrolls, reflows or resizes;
+ * update() keeps the existing element for the same flash so its animation
+ * carries on instead of restarting
+ */
+export class FlashMarker implements LayerMarker {
+  /**
+   * @param doc - Document of the editor, so flashes in popout windows are created there
+   * @param id - Identifies the flash across re-measures
+   * @param mode - Flash shape
+   * @param cssText - Geometry (relative to the layer) and background, from buildShapeCSS or buildLocatorCSS
+   */
+  constructor(readonly doc: Document, readonly id: number, readonly mode: FlashShape, readonly cssText: string) {}
+
+  eq(other: FlashMarker): boolean {
+    return other.id === this.id && other.cssText === this.cssText;
+  }
+
+  draw(): HTMLElement {
+    const element = this.doc.createElement('div');
+    element.className = flashClassName(this.mode);
+    element.style.cssText = `position: absolute; ${this.cssText}`;
+    return element;
+  }
+
+  update(dom: HTMLElement, prev: FlashMarker): boolean {
+    if (prev.id !== this.id || prev.mode !== this.mode) return false;
+    dom.style.cssText = `position: absolute; ${this.cssText}`;
+    return true;
+  }
+}
+
 /**
  * Service for rendering flash effects
- * Consolidates all three flash rendering modes (left, right, centered)
- * into a single reusable interface
+ * Builds the CSS for every flash shape: the line highlight shapes share one
+ * gradient builder; the locator ring and jump trails are drawn on their own.
+ * Editor flashes are drawn as FlashMarkers in a CodeMirror layer so they move
+ * with the text; render() draws fixed overlays where there is no editor
  */
 export class FlashRenderer {
   /**
-   * Render a flash effect with the specified gradient mode
-   * Eliminates code duplication between showLineFlash, showLineFlashRightToLeft, and showCursorCenteredFlash
+   * Render a flash as a fixed overlay that is removed after its duration
+   * Used in Reading view, which has no CodeMirror layer to anchor to
    *
-   * @param mode - Gradient direction: 'left', 'right', or 'centered'
-   * @param cssText - Complete CSS text for the flash element
+   * @param mode - A line highlight shape or the 'locator' ring
+   * @param cssText - CSS text from buildShapeCSS or buildLocatorCSS, in viewport coordinates
    * @param duration - How long to display the flash in milliseconds
+   * @param host - Overlay host in the view's own window (its document's body),
+   *               so flashes in popout windows are drawn there and not in the main window
    */
-  render(mode: 'left' | 'right' | 'centered', cssText: string, duration: number): void {
-    const element = document.createElement('div');
-    element.className = 'obsidian-flash-line';
-    element.style.cssText = cssText;
+  render(mode: FlashShape, cssText: string, duration: number, host: HTMLElement): void {
+    const element = host.ownerDocument.createElement('div');
+    element.className = flashClassName(mode);
+    element.style.cssText = `position: fixed; ${cssText}`;
 
-    document.body.appendChild(element);
+    host.appendChild(element);
     setTimeout(() => {
       element.remove();
     }, duration);
   }
 
   /**
-   * Build gradient CSS text for left-to-right flash
-   * Gradient fades from solid color on the left to transparent on the right
+   * Wrap CSS text as a marker for an editor's flash layer
+   *
+   * @param id - Identifies the flash, so re-measures keep its element
+   * @param mode - Flash shape
+   * @param cssText - CSS text from buildShapeCSS or buildLocatorCSS, in layer coordinates
+   * @param doc - Document of the editor the layer belongs to
+   */
+  createMarker(id: number, mode: FlashShape, cssText: string, doc: Document): FlashMarker {
+    return new FlashMarker(doc, id, mode, cssText);
+  }
+
+  /**
+   * Build CSS text for a line highlight shape
+   *
+   * @param shape - 'left'/'right'/'centered' fade along the cursor line, 'band' fills it,
+   *                'column' is a vertical beam through the cursor, 'crosshair' is band and
+   *                column together, 'spotlight' dims the editor around the cursor
+   * @param geometry - Cursor line, cursor and visible area
+   * @param color - Flash color and opacity
    */
-  buildLeftGradientCSS(
-    position: { left: number; top: number },
-    size: { width: number; height: number },
-    gradient: { colorStop: string; fadePercent: number; opacity: number }
-  ): string {
-    const { colorStop, fadePercent, opacity } = gradient;
+  buildShapeCSS(shape: GradientShape, geometry: FlashGeometry, color: FlashColor): string {
+    const { line, area, distance } = geometry;
+    // Effects that scale the flash (grow, shrink, ripple) scale it around the cursor
+    const cursorIn = (box: FlashBox) => ({ x: geometry.cursor.x - box.left, y: geometry.cursor.y - box.top });
+    switch (shape) {
+      case 'left':
+      case 'right': {
+        const fadePercent = Math.min(100, percentOf(distance, line.width));
+        return this.buildGradientCSS(line, color, [{
+          direction: shape === 'left' ? 'to right' : 'to left',
+          stops: [
+            { at: 0, strength: 1 },
+            { at: fadePercent * 0.5, strength: 0.5 },
+            { at: fadePercent, strength: 0 }
+          ]
+        }], cursorIn(line));
+      }
+      case 'centered': {
+        // Peaks at the cursor, flashSize/2 on each side
+        const cursorPercent = percentOf(geometry.cursor.x - line.left, line.width);
+        const spreadPercent = percentOf(distance / 2, line.width);
+        const leftEdge = Math.max(0, cursorPercent - spreadPercent);
+        const rightEdge = Math.min(100, cursorPercent + spreadPercent);
+        return this.buildGradientCSS(line, color, [{
+          direction: 'to right',
+          stops: [
+            { at: 0, strength: 0 },
+            { at: leftEdge, strength: 0 },
+            { at: (leftEdge + cursorPercent) / 2, strength: 0.75 },
+            { at: cursorPercent, strength: 1 },
+            { at: (cursorPercent + rightEdge) / 2, strength: 0.75 },
+            { at: rightEdge, strength: 0 },
+            { at: 100, strength: 0 }
+          ]
+        }], cursorIn(line));
+      }
+      case 'band':
+        return this.buildGradientCSS(line, color, [this.bandLayer(geometry, line)], cursorIn(line));
+      case 'column':
+        return this.buildGradientCSS(area, color, [this.columnLayer(geometry)], cursorIn(area));
+      case 'crosshair':
+        return this.buildGradientCSS(
+          area, color, [this.bandLayer(geometry, area), this.columnLayer(geometry)], cursorIn(area)
+        );
+      case 'spotlight':
+        // Clear around the cursor, dimmed beyond the radius
+        return this.buildGradientCSS(area, color, [{
+          center: cursorIn(area),
+          radius: Math.max(distance, line.height * 3),
+          stops: [
+            { at: 0, strength: 0.35 },
+            { at: 60, strength: 0 },
+            { at: 100, strength: 0.8, rgb: { r: 0, g: 0, b: 0 } }
+          ]
+        }], cursorIn(area));
+    }
+  }
+
+  /**
+   * Build CSS text for an element painted with gradient layers
+   * Layers are listed top first, as in CSS backgrounds
+   *
+   * @param box - The element, in the flash host's coordinates
+   * @param color - Flash color; each stop's strength scales its opacity
+   * @param layers - The gradients to paint
+   * @param origin - Transform origin relative to the element (the cursor), for scaling effects
+   */
+  buildGradientCSS(box: FlashBox, color: FlashColor, layers: GradientLayer[], origin?: { x: number; y: number }): string {
+    const images = layers.map(layer => {
+      const stops = layer.stops
+        .map(stop => {
+          const { r, g, b } = stop.rgb ?? color.rgb;
+          return `rgba(${r}, ${g}, ${b}, ${color.opacity * stop.strength}) ${stop.at}%`;
+        })
+        .join(', ');
+      return 'direction' in layer
+        ? `linear-gradient(${layer.direction}, ${stops})`
+        : `radial-gradient(circle ${layer.radius}px at ${layer.center.x}px ${layer.center.y}px, ${stops})`;
+    });
+    const sizes = layers.map(layer => layer.area ? `${layer.area.width}px ${layer.area.height}px` : '100% 100%');
+    const positions = layers.map(layer => layer.area ? `${layer.area.left}px ${layer.area.top}px` : '0 0');
 
     return `
-      position: fixed;
-      left: ${position.left}px;
-      top: ${position.top}px;
-      width: ${size.width}px;
-      height: ${size.height}px;
-      background: linear-gradient(to right,
-        ${colorStop},
-        ${colorStop.replace(colorStop.split(',')[3].trim(), `${opacity * 0.5})`)} ${fadePercent * 0.5}%,
-        transparent ${fadePercent}%
-      );
+      left: ${box.left}px;
+      top: ${box.top}px;
+      width: ${box.width}px;
+      height: ${box.height}px;
+      background-image: ${images.join(', ')};
+      background-size: ${sizes.join(', ')};
+      background-position: ${positions.join(', ')};
+      background-repeat: no-repeat;
+      ${origin ? `transform-origin: ${origin.x}px ${origin.y}px;` : ''}
       pointer-events: none;
       z-index: 1;
     `;
   }
 
   /**
-   * Build gradient CSS text for right-to-left flash
-   * Gradient fades from solid color on the right to transparent on the left
+   * The whole cursor line, brightest at the cursor
+   *
+   * @param element - The element the layer is painted in
    */
-  buildRightGradientCSS(
-    position: { left: number; top: number },
-    size: { width: number; height: number },
-    gradient: { colorStop: string; fadePercent: number; opacity: number }
-  ): string {
-    const { colorStop, fadePercent, opacity } = gradient;
+  private bandLayer(geometry: FlashGeometry, element: FlashBox): GradientLayer {
+    const { line, cursor } = geometry;
+    return {
+      direction: 'to right',
+      area: { left: line.left - element.left, top: line.top - element.top, width: line.width, height: line.height },
+      stops: [
+        { at: 0, strength: 0.6 },
+        { at: percentOf(cursor.x - line.left, line.width), strength: 1 },
+        { at: 100, strength: 0.6 }
+      ]
+    };
+  }
 
+  /**
+   * A vertical beam through the cursor across the visible area, fading
+   * towards the top and bottom (painted in the area's element)
+   */
+  private columnLayer(geometry: FlashGeometry): GradientLayer {
+    const { area, cursor } = geometry;
+    // A quarter of the flash size: two characters at the default size
+    const width = Math.max(4, geometry.distance / 4);
+    return {
+      direction: 'to bottom',
+      area: { left: cursor.x - area.left - width / 2, top: 0, width, height: area.height },
+      stops: [
+        { at: 0, strength: 0 },
+        { at: percentOf(cursor.y - area.top, area.height), strength: 1 },
+        { at: 100, strength: 0 }
+      ]
+    };
+  }
+
+  /**
+   * Build CSS text for the locator ring
+   * A circle centered on the cursor that shrinks onto it (see flash-locator-converge in styles.css)
+   *
+   * @param center - Cursor position, in the same coordinates as the flash host
+   * @param radius - Starting radius of the ring in pixels
+   * @param color - Ring color as an rgba() string
+   * @param duration - Animation length in milliseconds
+   */
+  buildLocatorCSS(
+    center: { x: number; y: number },
+    radius: number,
+    color: string,
+    duration: number
+  ): string {
     return `
-      position: fixed;
-      left: ${position.left}px;
-      top: ${position.top}px;
-      width: ${size.width}px;
-      height: ${size.height}px;
-      background: linear-gradient(to left,
-        ${colorStop},
-        ${colorStop.replace(colorStop.split(',')[3].trim(), `${opacity * 0.5})`)} ${fadePercent * 0.5}%,
-        transparent ${fadePercent}%
-      );
+      left: ${center.x - radius}px;
+      top: ${center.y - radius}px;
+      width: ${radius * 2}px;
+      height: ${radius * 2}px;
+      border-radius: 50%;
+      border: 3px solid ${color};
+      box-shadow: 0 0 12px ${color}, inset 0 0 12px ${color};
       pointer-events: none;
       z-index: 1;
+      animation: flash-locator-converge ${duration}ms ease-in forwards;
     `;
   }
 
   /**
-   * Build gradient CSS text for centered flash
-   * Gradient peaks at the cursor position and fades in both directions
+   * Build CSS text for a jump trail
+   * A comet from the previous cursor position to the new one, brightest at the
+   * new position, that retracts onto it (see flash-trail-retract in styles.css)
+   *
+   * @param from - Previous cursor position, in the flash host's coordinates
+   * @param to - New cursor position
+   * @param thickness - Width of the trail in pixels
+   * @param duration - Animation length in milliseconds
    */
-  buildCenteredGradientCSS(
-    position: { left: number; top: number },
-    size: { width: number; height: number },
-    gradient: {
-      colorStop: string;
-      cursorPercent: number;
-      spreadPercent: number;
-      peakOpacity: number;
-      fadeOpacity: number;
-    }
+  buildTrailCSS(
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    thickness: number,
+    color: FlashColor,
+    duration: number
   ): string {
-    const { colorStop, cursorPercent, spreadPercent, peakOpacity, fadeOpacity } = gradient;
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const { r, g, b } = color.rgb;
 
-    const leftEdge = Math.max(0, cursorPercent - spreadPercent);
-    const rightEdge = Math.min(100, cursorPercent + spreadPercent);
+    // Laid out ending at `to` and rotated around that end, so it starts at `from`
+    return `
+      left: ${to.x - length}px;
+      top: ${to.y - thickness / 2}px;
+      width: ${length}px;
+      height: ${thickness}px;
+      border-radius: ${thickness / 2}px;
+      background: linear-gradient(to right, rgba(${r}, ${g}, ${b}, 0), rgba(${r}, ${g}, ${b}, ${color.opacity}));
+      transform-origin: 100% 50%;
+      rotate: ${angle}rad;
+      pointer-events: none;
+      z-index: 1;
+      animation: flash-trail-retract ${duration}ms ease-in both;
+    `;
+  }
+
+  /**
+   * Build CSS text for the arrow that stands in for a jump trail whose start
+   * is off-screen, pinned to the edge the cursor left by
+   *
+   * @param at - Top-center of the arrow, in the flash host's coordinates
+   * @param pointing - Towards the previous cursor position
+   * @param size - Width and height of the arrow in pixels
+   * @param duration - Animation length in milliseconds
+   */
+  buildEdgeArrowCSS(
+    at: { x: number; y: number },
+    pointing: 'up' | 'down',
+    size: number,
+    color: FlashColor,
+    duration: number
+  ): string {
+    const { r, g, b } = color.rgb;
+    const triangle = pointing === 'up' ? '50% 0, 100% 100%, 0 100%' : '0 0, 100% 0, 50% 100%';
 
     return `
-      position: fixed;
-      left: ${position.left}px;
-      top: ${position.top}px;
-      width: ${size.width}px;
-      height: ${size.height}px;
-      background: linear-gradient(to right,
-        transparent 0%,
-        transparent ${leftEdge}%,
-        ${colorStop.replace(colorStop.split(',')[3].trim(), `${fadeOpacity})`)} ${(leftEdge + cursorPercent) / 2}%,
-        ${colorStop.replace(colorStop.split(',')[3].trim(), `${peakOpacity})`)} ${cursorPercent}%,
-        ${colorStop.replace(colorStop.split(',')[3].trim(), `${fadeOpacity})`)} ${(cursorPercent + rightEdge) / 2}%,
-        transparent ${rightEdge}%,
-        transparent 100%
-      );
+      left: ${at.x - size / 2}px;
+      top: ${at.y}px;
+      width: ${size}px;
+      height: ${size}px;
+      clip-path: polygon(${triangle});
+      background-color: rgba(${r}, ${g}, ${b}, ${color.opacity});
       pointer-events: none;
       z-index: 1;
+      animation: flash-effect-fade ${duration}ms ease-out both;
     `;
   }
 }
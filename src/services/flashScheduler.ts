@@ -1,4 +1,61 @@
-import { shouldAllowFlash, calculateScrollDebounceTime } from '../utils';
+import { shouldAllowFlash, calculateScrollDebounceTime, isLongRepeatMove, isDistantJump, type CursorPoint } from '../utils';
+
+/**
+ * Events that can request a flash
+ * - 'scroll': the editor scrolled (debounced)
+ * - 'view-change' / 'layout-change': workspace leaf or layout changed
+ * - 'jump-key': one of the user's configured jump key chords was pressed
+ * - 'key-repeat': a held movement key was released after a long move
+ * - 'distance-jump': a single selection change moved the cursor far, whatever caused it
+ * - 'history-jump': undo or redo moved the cursor far
+ * - 'search-jump': the search panel moved the cursor to a match
+ */
+export type FlashTrigger =
+  | 'scroll'
+  | 'view-change'
+  | 'layout-change'
+  | 'jump-key'
+  | 'key-repeat'
+  | 'distance-jump'
+  | 'history-jump'
+  | 'search-jump';
+
+/**
+ * Minimum cursor travel for a held movement key to flash on release
+ */
+export interface RepeatThresholds {
+  lines: number;
+  chars: number;
+}
+
+/**
+ * A cursor location for jump detection: document line number and the top of
+ * the visual row the cursor is on, in pixels from the top of the document
+ */
+export interface JumpPoint {
+  line: number;
+  top: number;
+}
+
+/**
+ * Reads cursor rows from an editor (CodeMirror's, in the measure phase)
+ */
+export interface RowLocator {
+  /** Document line number at a position */
+  lineAt(pos: number): number;
+  /** Top of the visual row at a position, from the document top; null if it isn't rendered */
+  rowTopAt(pos: number, side: -1 | 1): number | null;
+  /** Top of the whole line block at a position, from the document top (height map estimate) */
+  blockTopAt(pos: number): number;
+}
+
+/**
+ * Minimum cursor travel for a single selection change to count as a jump
+ */
+export interface JumpThresholds {
+  lines: number;
+  pixels: number;
+}
 
 /**
  * State object for flash scheduling
@@ -10,6 +67,10 @@ export interface FlashState {
   hasPendingFlash: boolean;
   lastViewChange: number;
   now: number;
+  /** The user typed recently; scrolling that follows typing is not a reason to flash */
+  isTypingActive?: boolean;
+  /** Another plugin asked for quiet through the public API (api.suppress) */
+  isSuppressed?: boolean;
 }
 
 /**
@@ -22,11 +83,15 @@ export class FlashScheduler {
    * Determine if a flash can be scheduled given the current state and trigger
    * Takes into account click fencing, active flashes, pending flashes, and timing
    *
-   * @param trigger - The trigger type: 'scroll', 'view-change', 'layout-change'
+   * @param trigger - The trigger type (see FlashTrigger)
    * @param state - Current flash state
    * @returns true if flash should be scheduled, false if it should be blocked
    */
-  canScheduleFlash(trigger: string, state: FlashState): boolean {
+  canScheduleFlash(trigger: FlashTrigger, state: FlashState): boolean {
+    if (state.isSuppressed) {
+      return false;
+    }
+
     // Check if flash is allowed based on trigger type and state
     const flashAllowed = shouldAllowFlash(
       trigger,
@@ -39,6 +104,11 @@ export class FlashScheduler {
       return false;
     }
 
+    // Typing scrolls the cursor into view; that scroll should stay quiet
+    if (trigger === 'scroll' && state.isTypingActive) {
+      return false;
+    }
+
     // For non-view-triggers, ensure minimum time between flashes
     // This prevents rapid successive flashes from slowing down the UI
     const isViewTrigger = trigger === 'view-change' || trigger === 'layout-change';
@@ -61,6 +131,46 @@ export class FlashScheduler {
     return calculateScrollDebounceTime(scrollDelta);
   }
 
+  /**
+   * Decide whether releasing a held (auto-repeating) movement key should flash
+   * Vertical keys are judged by lines moved, horizontal keys by characters moved
+   *
+   * @param key - KeyboardEvent.key of the held key
+   * @param from - Cursor position when the key went down
+   * @param to - Cursor position when the key was released
+   * @param thresholds - Distances the move must exceed
+   * @returns true if the move was long enough to flash
+   */
+  shouldFlashAfterRepeat(key: string, from: CursorPoint, to: CursorPoint, thresholds: RepeatThresholds): boolean {
+    return isLongRepeatMove(key, from, to, thresholds.lines, thresholds.chars);
+  }
+
+  /**
+   * Locate a cursor position for isDistantJump
+   * Uses the visual row, so moves inside one wrapped line have a distance and
+   * a one-row move off a tall line (long paragraph, table, embed) doesn't count
+   * that whole line's height. Falls back to the line block outside the rendered viewport
+   *
+   * @param side - Which side of a soft wrap the cursor is on (the selection's assoc)
+   */
+  jumpPoint(locator: RowLocator, pos: number, side: -1 | 1): JumpPoint {
+    return { line: locator.lineAt(pos), top: locator.rowTopAt(pos, side) ?? locator.blockTopAt(pos) };
+  }
+
+  /**
+   * Decide whether one selection change moved the cursor far enough to flash
+   * Whatever caused the move (Go to line, outline click, another plugin),
+   * only the distance matters here; callers filter out typing beforehand
+   *
+   * @param from - Cursor position before the change
+   * @param to - Cursor position after the change
+   * @param thresholds - Distances of which at least one must be exceeded
+   * @returns true if the move counts as a jump
+   */
+  isDistantJump(from: JumpPoint, to: JumpPoint, thresholds: JumpThresholds): boolean {
+    return isDistantJump(to.line - from.line, to.top - from.top, thresholds.lines, thresholds.pixels);
+  }
+
   /**
    * Create a timeout for flash scheduling
    * Centralized so that flash timing can be easily adjusted or faked in tests
@@ -0,0 +1,118 @@
+/**
+ * Measures the advance width of `text` set in a CSS `font`, in CSS pixels
+ * Returns NaN if the text can't be measured
+ */
+export type TextMeasurer = (font: string, text: string) => number;
+
+/**
+ * Vertical geometry of one visual row of a line, relative to the glyph under the cursor
+ */
+export interface LineBox {
+  /** Height of the row (line box), in CSS pixels */
+  height: number;
+  /** Distance from the bottom of the glyph (text-bottom) down to the bottom of the row */
+  descent: number;
+}
+
+/** Mixed sample so proportional fonts get a representative average width */
+const SAMPLE_TEXT = 'the quick brown fox jumps over the lazy dog THE QUICK BROWN FOX 0123456789';
+
+/**
+ * Measure text with a detached canvas: no layout, so it is safe in CM's read phase
+ */
+function createCanvasMeasurer(): TextMeasurer {
+  let context: CanvasRenderingContext2D | null | undefined;
+  return (font, text) => {
+    if (context === undefined) {
+      context = document.createElement('canvas').getContext('2d');
+    }
+    if (!context) return NaN;
+    context.font = font;
+    return context.measureText(text).width;
+  };
+}
+
+/**
+ * Service for real font metrics
+ * Replaces the fontSize * 0.6 (character width) and fontSize * 1.5 (line height)
+ * estimates. Character widths are measured from the font; line boxes are
+ * recorded from coordsAtPos by the caller (during a CM measure phase).
+ * Both are cached per font and zoom level, so each is measured once
+ */
+export class GlyphMetrics {
+  private charWidths = new Map<string, number>();
+  private lineBoxes = new Map<string, LineBox>();
+
+  /**
+   * @param measureText - Text measurer; defaults to a canvas
+   */
+  constructor(private measureText: TextMeasurer = createCanvasMeasurer()) {}
+
+  /**
+   * Average character width of a font
+   *
+   * @param font - CSS font shorthand (see fontShorthand in utils)
+   * @param zoom - Window zoom (devicePixelRatio); glyph hinting differs between zoom levels
+   * @returns Width in CSS pixels, or null if the font can't be measured
+   */
+  charWidth(font: string, zoom: number): number | null {
+    const key = this.cacheKey(font, zoom);
+    let width = this.charWidths.get(key);
+    if (width === undefined) {
+      width = this.measureText(font, SAMPLE_TEXT) / SAMPLE_TEXT.length;
+      if (!Number.isFinite(width) || width <= 0) return null;
+      this.charWidths.set(key, width);
+    }
+    return width;
+  }
+
+  /**
+   * Width of `count` characters of a font, e.g. the flash size in pixels
+   *
+   * @returns Width in CSS pixels, or null if the font can't be measured
+   */
+  spanWidth(font: string, zoom: number, count: number): number | null {
+    const width = this.charWidth(font, zoom);
+    return width === null ? null : width * count;
+  }
+
+  /**
+   * Measured line box for a font, if it has been recorded
+   *
+   * @param font - Font key; a glyph font inside a line font (e.g. inline code in
+   *               a heading) sits differently in the row, so callers combine both
+   */
+  lineBox(font: string, zoom: number): LineBox | undefined {
+    return this.lineBoxes.get(this.cacheKey(font, zoom));
+  }
+
+  /**
+   * Store a line box measured with coordsAtPos
+   *
+   * @returns true if the stored box changed (callers redraw cursors then)
+   */
+  recordLineBox(font: string, zoom: number, box: LineBox): boolean {
+    if (!Number.isFinite(box.height) || box.height <= 0 || !Number.isFinite(box.descent)) return false;
+    const key = this.cacheKey(font, zoom);
+    const previous = this.lineBoxes.get(key);
+    if (previous
+      && Math.abs(previous.height - box.height) < 0.5
+      && Math.abs(previous.descent - box.descent) < 0.5) {
+      return false;
+    }
+    this.lineBoxes.set(key, box);
+    return true;
+  }
+
+  /**
+   * Forget all measurements (fonts or theme changed)
+   */
+  clear(): void {
+    this.charWidths.clear();
+    this.lineBoxes.clear();
+  }
+
+  private cacheKey(font: string, zoom: number): string {
+    return `${font}@${Math.round(zoom * 100)}`;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Where the cursor is relative to the visible part of the editor
+ */
+export interface OffscreenState {
+  direction: 'above' | 'below' | null;
+  /** Lines between the cursor and the nearest visible line */
+  distance: number;
+  color: string;
+  textColor: string;
+}
+
+/**
+ * Service for the off-screen cursor indicator
+ * Owns a pill pinned to the top or bottom edge of one editor that points
+ * towards the cursor while it is scrolled out of view
+ */
+export class OffscreenIndicator {
+  private element: HTMLElement;
+
+  /**
+   * @param host - Positioned container to pin the pill to (the editor's .cm-editor element)
+   * @param onActivate - Called when the pill is clicked
+   */
+  constructor(host: HTMLElement, private onActivate: () => void) {
+    const doc = host.ownerDocument;
+    this.element = doc.createElement('div');
+    this.element.className = 'cursor-cue-offscreen-indicator';
+    this.element.setAttribute('role', 'button');
+    this.element.setAttribute('aria-label', 'Scroll to cursor');
+    this.element.style.display = 'none';
+    // Keep focus in the editor: a mousedown on the pill would otherwise blur it
+    this.element.addEventListener('mousedown', this.onMouseDown);
+    this.element.addEventListener('click', this.onClick);
+    host.appendChild(this.element);
+  }
+
+  /**
+   * Show, move or hide the pill
+   *
+   * @param state - Cursor direction and distance; direction null hides the pill
+   */
+  update(state: OffscreenState): void {
+    if (!state.direction) {
+      this.element.style.display = 'none';
+      return;
+    }
+
+    const arrow = state.direction === 'above' ? '↑' : '↓';
+    const unit = state.distance === 1 ? 'line' : 'lines';
+    this.element.textContent = `${arrow} ${state.distance} ${unit}`;
+    this.element.classList.toggle('is-above', state.direction === 'above');
+    this.element.classList.toggle('is-below', state.direction === 'below');
+    this.element.style.backgroundColor = state.color;
+    this.element.style.color = state.textColor;
+    this.element.style.display = '';
+  }
+
+  destroy(): void {
+    this.element.removeEventListener('mousedown', this.onMouseDown);
+    this.element.removeEventListener('click', this.onClick);
+    this.element.remove();
+  }
+
+  private onMouseDown = (event: MouseEvent): void => {
+    event.preventDefault();
+  };
+
+  private onClick = (event: MouseEvent): void => {
+    event.preventDefault();
+    this.onActivate();
+  };
+}
@@ -0,0 +1,68 @@
+import { pickReadingBlock } from '../utils';
+
+/** Top-level rendered sections of a Reading view, minus the layout helpers */
+const BLOCK_SELECTOR =
+  '.markdown-preview-sizer > div:not(.markdown-preview-pusher):not(.mod-header):not(.mod-footer)';
+
+/** The scrolling element of a Reading view */
+export const READING_VIEW_SELECTOR = '.markdown-preview-view';
+
+/**
+ * The block to flash, and where in it the reader last clicked
+ */
+export interface ReadingTarget {
+  block: HTMLElement;
+  /** Viewport x of the last click in this block, or null if it wasn't clicked */
+  clickX: number | null;
+}
+
+/**
+ * Service for the reading position in Reading view
+ * Reading view has no cursor, so the "where am I" cue goes to the paragraph
+ * the reader last clicked, or to the block at the top of the view once that
+ * paragraph has scrolled away
+ */
+export class ReadingPositionTracker {
+  // Keyed by Reading view container; weak so closed panes are forgotten
+  private lastClicks = new WeakMap<HTMLElement, { block: HTMLElement; x: number }>();
+
+  /**
+   * Remember the block under a click
+   *
+   * @param target - The clicked element (anything inside a Reading view)
+   * @param x - Viewport x of the click
+   */
+  recordClick(target: EventTarget | null, x: number): void {
+    const block = (target as HTMLElement | null)?.closest?.(BLOCK_SELECTOR) as HTMLElement | null;
+    const container = block?.closest(READING_VIEW_SELECTOR) as HTMLElement | null;
+    if (block && container) {
+      this.lastClicks.set(container, { block, x });
+    }
+  }
+
+  /**
+   * Find the block to flash in a Reading view
+   *
+   * @param container - The Reading view's scrolling element
+   * @returns The block and click position, or null if nothing is rendered in view
+   */
+  findTarget(container: HTMLElement): ReadingTarget | null {
+    const blocks = Array.from(container.querySelectorAll<HTMLElement>(BLOCK_SELECTOR));
+    const visible = container.getBoundingClientRect();
+    const click = this.lastClicks.get(container);
+    const clickedIndex = click ? blocks.indexOf(click.block) : -1;
+
+    const index = pickReadingBlock(
+      blocks.map(block => block.getBoundingClientRect()),
+      visible.top,
+      visible.bottom,
+      clickedIndex
+    );
+    if (index < 0) return null;
+
+    return {
+      block: blocks[index],
+      clickX: click && index === clickedIndex ? click.x : null
+    };
+  }
+}
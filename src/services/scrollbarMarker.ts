@@ -0,0 +1,73 @@
+/**
+ * Placement of the marker within the editor, in pixels relative to the host element
+ */
+export interface ScrollbarMarkerPlacement {
+  visible: boolean;
+  top: number;
+  height: number;
+  width: number;
+  color: string;
+}
+
+/**
+ * Service for the scrollbar cursor marker
+ * Owns a thin mark drawn over one editor's vertical scrollbar track at the
+ * cursor line's position in the document, like a minimap "you are here"
+ */
+export class ScrollbarMarker {
+  private element: HTMLElement;
+  private emphasisTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param host - Positioned container to draw in (the editor's .cm-editor element)
+   */
+  constructor(host: HTMLElement) {
+    this.element = host.ownerDocument.createElement('div');
+    this.element.className = 'cursor-cue-scrollbar-marker';
+    this.element.setAttribute('aria-hidden', 'true');
+    this.element.style.display = 'none';
+    host.appendChild(this.element);
+  }
+
+  /**
+   * Move, resize or hide the marker
+   */
+  update(placement: ScrollbarMarkerPlacement): void {
+    if (!placement.visible) {
+      this.element.style.display = 'none';
+      return;
+    }
+    this.element.style.top = `${placement.top}px`;
+    this.element.style.height = `${placement.height}px`;
+    this.element.style.width = `${placement.width}px`;
+    this.element.style.backgroundColor = placement.color;
+    this.element.style.display = '';
+  }
+
+  /**
+   * Briefly enlarge the marker so it can be spotted while the cursor flashes
+   *
+   * @param duration - Milliseconds to keep the emphasis
+   */
+  emphasise(duration: number): void {
+    if (this.emphasisTimer) {
+      clearTimeout(this.emphasisTimer);
+    }
+    // Restart the animation if the marker is already emphasised
+    this.element.classList.remove('is-emphasised');
+    void this.element.offsetWidth;
+    this.element.style.animationDuration = `${duration}ms`;
+    this.element.classList.add('is-emphasised');
+    this.emphasisTimer = setTimeout(() => {
+      this.element.classList.remove('is-emphasised');
+      this.emphasisTimer = null;
+    }, duration);
+  }
+
+  destroy(): void {
+    if (this.emphasisTimer) {
+      clearTimeout(this.emphasisTimer);
+    }
+    this.element.remove();
+  }
+}
@@ -0,0 +1,106 @@
+import type { LayerMarker } from '@codemirror/view';
+
+/**
+ * A caret's box in the caret layer's coordinates, in CSS pixels
+ */
+export interface CaretBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One cursor drawn in the smooth caret layer
+ * The layer hands update() the element it drew for the same cursor last time,
+ * so a cursor move only changes that element's position and the CSS
+ * transition glides it there instead of the caret jumping
+ */
+export class CaretMarker implements LayerMarker {
+  /**
+   * @param doc - Document of the editor, so carets in popout windows are created there
+   * @param box - Where the caret is
+   * @param className - Caret classes (style, secondary, animated)
+   * @param color - Caret color
+   * @param glide - Glide duration in milliseconds; 0 jumps (fast typing, held keys)
+   * @param animationStyle - Flash animation variables for the "Only during flash" cursor
+   * @param flashStart - The flash the caret is shown for; a new flash redraws the
+   *                     caret so its animation starts over
+   */
+  constructor(
+    readonly doc: Document,
+    readonly box: CaretBox,
+    readonly className: string,
+    readonly color: string,
+    readonly glide: number,
+    readonly animationStyle: string = '',
+    readonly flashStart: number = 0
+  ) {}
+
+  eq(other: CaretMarker): boolean {
+    return other.className === this.className
+      && other.color === this.color
+      && other.glide === this.glide
+      && other.animationStyle === this.animationStyle
+      && other.flashStart === this.flashStart
+      && other.box.left === this.box.left
+      && other.box.top === this.box.top
+      && other.box.width === this.box.width
+      && other.box.height === this.box.height;
+  }
+
+  draw(): HTMLElement {
+    const element = this.doc.createElement('div');
+    this.apply(element);
+    return element;
+  }
+
+  update(dom: HTMLElement, prev: CaretMarker): boolean {
+    if (prev.flashStart !== this.flashStart) return false;
+    this.apply(dom);
+    return true;
+  }
+
+  private apply(element: HTMLElement): void {
+    const { left, top, width, height } = this.box;
+    // left/top rather than transform, which the flash effects animate
+    const transition = this.glide > 0
+      ? ['left', 'top', 'width', 'height'].map(property => `${property} ${this.glide}ms ease-out`).join(', ')
+      : 'none';
+    element.className = this.className;
+    element.style.cssText = `
+      position: absolute;
+      left: ${left}px;
+      top: ${top}px;
+      width: ${width}px;
+      height: ${height}px;
+      background-color: ${this.color};
+      --cursor-cue-color: ${this.color};
+      transition: ${transition};
+      pointer-events: none;
+      ${this.animationStyle}
+    `;
+  }
+}
+
+/**
+ * Decides when an editor's caret layer redraws
+ * The layer only redraws when its update callback says so; once "Smooth caret"
+ * is switched off it must still redraw one last time to remove the carets it
+ * drew, or they stay on screen (and keep the native cursor hidden)
+ * Generic over the view type so it can be tested without CodeMirror
+ */
+export class CaretLayerSwitch<V extends object> {
+  private enabledIn = new WeakMap<V, boolean>();
+
+  /**
+   * @param view - The editor whose layer is updating
+   * @param enabled - Whether the smooth caret is on now
+   * @returns true if the layer should redraw
+   */
+  needsRedraw(view: V, enabled: boolean): boolean {
+    const wasEnabled = this.enabledIn.get(view) ?? false;
+    this.enabledIn.set(view, enabled);
+    return enabled || wasEnabled;
+  }
+}
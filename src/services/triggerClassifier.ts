@@ -0,0 +1,93 @@
+import { Transaction } from '@codemirror/state';
+import type { FlashTrigger } from './flashScheduler';
+
+/**
+ * What the user (or another plugin) was doing in a batch of transactions,
+ * derived from CodeMirror's Transaction.userEvent annotation
+ * - 'pointer': selection set with the mouse ("select.pointer")
+ * - 'typing': text input or deletion ("input.*", "delete.*", "move.drop")
+ * - 'history': undo or redo
+ * - 'search': the search panel moved to a match ("select.search")
+ * - 'keyboard': a selection command such as an arrow key or a custom binding ("select")
+ * - 'external': the selection changed without a user event (links, outline, other plugins)
+ * - 'none': nothing that moved the cursor
+ */
+export type TransactionIntent = 'pointer' | 'typing' | 'history' | 'search' | 'keyboard' | 'external' | 'none';
+
+/**
+ * Intents in order of precedence when one update carries several transactions.
+ * A click that also types (drag-and-drop) is still a click.
+ */
+const INTENT_PRECEDENCE: TransactionIntent[] = ['pointer', 'typing', 'history', 'search', 'keyboard', 'external', 'none'];
+
+/**
+ * Service for classifying editor transactions into flash triggers
+ * Reads userEvent annotations instead of guessing intent from global key or pointer listeners,
+ * so it works with any key binding or plugin that dispatches annotated transactions
+ */
+export class TriggerClassifier {
+  /**
+   * Classify a single transaction
+   *
+   * @param tr - A CodeMirror transaction
+   * @returns The intent behind the transaction
+   */
+  classifyTransaction(tr: Transaction): TransactionIntent {
+    if (tr.isUserEvent('select.pointer')) return 'pointer';
+    if (tr.isUserEvent('input') || tr.isUserEvent('delete') || tr.isUserEvent('move.drop')) return 'typing';
+    if (tr.isUserEvent('undo') || tr.isUserEvent('redo')) return 'history';
+    if (tr.isUserEvent('select.search')) return 'search';
+    if (tr.isUserEvent('select')) return 'keyboard';
+    if (tr.docChanged) return 'typing';
+    if (tr.selection) return 'external';
+    return 'none';
+  }
+
+  /**
+   * Classify all transactions of one view update
+   * When several transactions arrive together, the highest-precedence intent wins
+   *
+   * @param transactions - ViewUpdate.transactions
+   * @returns The combined intent
+   */
+  classify(transactions: readonly Transaction[]): TransactionIntent {
+    let best = INTENT_PRECEDENCE.length - 1;
+    for (const tr of transactions) {
+      best = Math.min(best, INTENT_PRECEDENCE.indexOf(this.classifyTransaction(tr)));
+    }
+    return INTENT_PRECEDENCE[best];
+  }
+
+  /**
+   * Whether an intent only means something in the editor that has focus
+   * Clicks and typing set fences for the user's own editor; jumps flash in
+   * whichever editor moved, so navigation from a side pane (outline, backlinks,
+   * search) or another plugin's dispatch still flashes
+   *
+   * @param intent - Result of classify()
+   */
+  requiresFocus(intent: TransactionIntent): boolean {
+    return intent === 'pointer' || intent === 'typing';
+  }
+
+  /**
+   * Map an intent to the flash trigger it may raise
+   * Clicks and typing never flash: the cursor is already where the user is looking
+   *
+   * @param intent - Result of classify()
+   * @returns The flash trigger, or null if the intent should stay quiet
+   */
+  toFlashTrigger(intent: TransactionIntent): FlashTrigger | null {
+    switch (intent) {
+      case 'history':
+        return 'history-jump';
+      case 'search':
+        return 'search-jump';
+      case 'keyboard':
+      case 'external':
+        return 'distance-jump';
+      default:
+        return null;
+    }
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Cursor and flash state kept for each live editor
+ */
+export interface ViewCursorState {
+  /** The "Only during flash" cursor is showing in this editor */
+  flashActive: boolean;
+  /** Timer that ends this editor's flash */
+  resetTimeout: ReturnType<typeof setTimeout> | null;
+  /** When the current flash started (Date.now()), so redrawn cursors join its animation */
+  flashStart: number;
+  /** Length of the current flash in milliseconds */
+  flashDuration: number;
+  /** Counts cursor moves and edits; each one restarts the custom cursor's blink */
+  blinkRestarts: number;
+}
+
+/**
+ * Service for tracking live editor views
+ * Every editor (split panes, popouts, embeds) registers itself when its ViewPlugin
+ * is created and unregisters when destroyed, so settings changes, theme changes
+ * and flashes can reach the right editor(s) instead of only the last one created
+ * Generic over the view type so it can be tested without CodeMirror
+ */
+export class EditorViewRegistry<V> {
+  private states = new Map<V, ViewCursorState>();
+
+  /**
+   * Start tracking a view
+   *
+   * @param view - The editor view
+   * @returns The view's (new or existing) state
+   */
+  register(view: V): ViewCursorState {
+    let state = this.states.get(view);
+    if (!state) {
+      state = { flashActive: false, resetTimeout: null, flashStart: 0, flashDuration: 0, blinkRestarts: 0 };
+      this.states.set(view, state);
+    }
+    return state;
+  }
+
+  /**
+   * Stop tracking a view and cancel its pending timers
+   */
+  unregister(view: V): void {
+    const state = this.states.get(view);
+    if (state?.resetTimeout) {
+      clearTimeout(state.resetTimeout);
+    }
+    this.states.delete(view);
+  }
+
+  get(view: V): ViewCursorState | undefined {
+    return this.states.get(view);
+  }
+
+  has(view: V): boolean {
+    return this.states.has(view);
+  }
+
+  /**
+   * All live views, in registration order
+   */
+  views(): V[] {
+    return Array.from(this.states.keys());
+  }
+
+  /**
+   * Forget every view, cancelling their timers (used on plugin unload)
+   */
+  clear(): void {
+    for (const view of this.views()) {
+      this.unregister(view);
+    }
+  }
+}
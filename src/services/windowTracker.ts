@@ -0,0 +1,61 @@
+/**
+ * Undo whatever was set up for a window
+ */
+export type WindowCleanup = () => void;
+
+/**
+ * Service for per-window setup
+ * Obsidian popout windows have their own document, so anything the plugin
+ * injects (style elements, capture-phase key listeners) must be added to each
+ * window separately. The tracker runs the attach callback once per window and
+ * keeps the returned cleanup until the window closes or the plugin unloads
+ * Generic over the window type so it can be tested without a DOM
+ */
+export class WindowTracker<W = Window> {
+  private cleanups = new Map<W, WindowCleanup>();
+
+  /**
+   * @param attach - Sets up a window and returns how to undo it
+   */
+  constructor(private attach: (win: W) => WindowCleanup) {}
+
+  /**
+   * Set up a window if it isn't tracked yet
+   *
+   * @param win - The window (safe to call repeatedly, e.g. for every editor created in it)
+   */
+  track(win: W): void {
+    if (this.cleanups.has(win)) return;
+    this.cleanups.set(win, this.attach(win));
+  }
+
+  /**
+   * Undo a window's setup and stop tracking it
+   */
+  untrack(win: W): void {
+    const cleanup = this.cleanups.get(win);
+    if (!cleanup) return;
+    this.cleanups.delete(win);
+    cleanup();
+  }
+
+  has(win: W): boolean {
+    return this.cleanups.has(win);
+  }
+
+  /**
+   * All tracked windows, in the order they were set up
+   */
+  windows(): W[] {
+    return Array.from(this.cleanups.keys());
+  }
+
+  /**
+   * Undo the setup of every window (used on plugin unload)
+   */
+  clear(): void {
+    for (const win of this.windows()) {
+      this.untrack(win);
+    }
+  }
+}
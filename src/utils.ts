@@ -3,6 +3,8 @@
  * Extracted for testability
  */
 
+import { findClusterBreak } from '@codemirror/state';
+
 /**
  * Convert a hex color string to RGB values
  */
@@ -83,6 +85,7 @@ export function getContrastColor(hexColor: string, bgColor: string = '#ffffff',
 
 /**
  * Calculate line height from font size
+ * Fallback estimate for when GlyphMetrics hasn't measured the font yet
  */
 export function calculateLineHeightFromFontSize(fontSize: number): number {
 	return fontSize * 1.5;
@@ -90,11 +93,28 @@ export function calculateLineHeightFromFontSize(fontSize: number): number {
 
 /**
  * Calculate character width from font size
+ * Fallback estimate for when GlyphMetrics can't measure the font
  */
 export function calculateCharacterWidth(fontSize: number): number {
 	return fontSize * 0.6;
 }
 
+/**
+ * Build a CSS font shorthand from computed style, for measuring text and as a
+ * metrics cache key. Uses the computed `font` when the browser provides it
+ * (it is empty when a longhand can't be expressed in the shorthand).
+ */
+export function fontShorthand(style: {
+	font?: string;
+	fontStyle: string;
+	fontWeight: string;
+	fontSize: string;
+	fontFamily: string;
+}): string {
+	if (style.font) return style.font;
+	return `${style.fontStyle || 'normal'} ${style.fontWeight || '400'} ${style.fontSize} ${style.fontFamily}`;
+}
+
 /**
  * Calculate highlight distance based on flash size setting
  */
@@ -119,9 +139,14 @@ export function shouldAllowFlash(
 	hasPendingFlash: boolean
 ): boolean {
 	const isViewTrigger = trigger === 'view-change' || trigger === 'layout-change';
+	const isKeyTrigger = trigger === 'jump-key' || trigger === 'key-repeat';
+	// Selection-change triggers come from TriggerClassifier, which already drops
+	// in-editor clicks, so clicks in other panes (outline, backlinks) still flash
+	const isJumpTrigger = trigger === 'distance-jump' || trigger === 'history-jump' || trigger === 'search-jump';
 	
-	// View/layout triggers bypass click fence
-	if (!isViewTrigger && isFenceActive) {
+	// View/layout triggers bypass click fence, and so do keyboard triggers
+	// (a key pressed right after a click is still a deliberate cursor move)
+	if (!isViewTrigger && !isKeyTrigger && !isJumpTrigger && isFenceActive) {
 		return false;
 	}
 	
@@ -139,6 +164,292 @@ export function calculateScrollDebounceTime(scrollDelta: number): number {
 	return scrollDelta < 5 ? 250 : 150;
 }
 
+/**
+ * A key chord such as "Ctrl+Home", split into its key and modifier flags
+ */
+export interface KeyChord {
+	key: string;
+	ctrl: boolean;
+	alt: boolean;
+	shift: boolean;
+	meta: boolean;
+}
+
+/**
+ * Parse a user-entered key chord like "Ctrl+Shift+End".
+ * Modifier names are case-insensitive; "Cmd"/"Command" are aliases for Meta
+ * and "Option" is an alias for Alt. Returns null for empty or modifier-only chords.
+ */
+export function parseKeyChord(chord: string): KeyChord | null {
+	const parts = chord.split('+').map(part => part.trim()).filter(part => part.length > 0);
+	// A chord ending in "+" (e.g. "Ctrl++") means the plus key itself
+	if (chord.trim().endsWith('++')) {
+		parts.push('+');
+	}
+
+	const parsed: KeyChord = { key: '', ctrl: false, alt: false, shift: false, meta: false };
+	for (const part of parts) {
+		switch (part.toLowerCase()) {
+			case 'ctrl':
+			case 'control':
+				parsed.ctrl = true;
+				break;
+			case 'alt':
+			case 'option':
+				parsed.alt = true;
+				break;
+			case 'shift':
+				parsed.shift = true;
+				break;
+			case 'meta':
+			case 'cmd':
+			case 'command':
+				parsed.meta = true;
+				break;
+			default:
+				parsed.key = part;
+		}
+	}
+
+	return parsed.key ? parsed : null;
+}
+
+/**
+ * Check whether a keyboard event matches a parsed key chord.
+ * Keys are compared case-insensitively and modifiers must match exactly,
+ * so "End" does not match Shift+End (which extends the selection instead).
+ */
+export function matchesKeyChord(
+	event: { key: string; ctrlKey: boolean; altKey: boolean; shiftKey: boolean; metaKey: boolean },
+	chord: KeyChord
+): boolean {
+	return event.key.toLowerCase() === chord.key.toLowerCase()
+		&& event.ctrlKey === chord.ctrl
+		&& event.altKey === chord.alt
+		&& event.shiftKey === chord.shift
+		&& event.metaKey === chord.meta;
+}
+
+/**
+ * A cursor location expressed both as a line number and a document offset
+ */
+export interface CursorPoint {
+	line: number;
+	offset: number;
+}
+
+const VERTICAL_REPEAT_KEYS = ['ArrowUp', 'ArrowDown', 'PageUp', 'PageDown'];
+const HORIZONTAL_REPEAT_KEYS = ['ArrowLeft', 'ArrowRight'];
+
+/**
+ * Whether a key is a single-step movement key whose auto-repeat we track
+ */
+export function isRepeatMoveKey(key: string): boolean {
+	return VERTICAL_REPEAT_KEYS.includes(key) || HORIZONTAL_REPEAT_KEYS.includes(key);
+}
+
+/**
+ * Decide whether a held movement key moved the cursor far enough to flash on release.
+ * Vertical keys (Up/Down/PageUp/PageDown) are measured in lines, horizontal keys
+ * (Left/Right) in characters, so that a held Left wrapping over a few short
+ * lines is judged by how far the cursor actually travelled.
+ * The move must strictly exceed the threshold.
+ */
+export function isLongRepeatMove(
+	key: string,
+	from: CursorPoint,
+	to: CursorPoint,
+	lineThreshold: number,
+	charThreshold: number
+): boolean {
+	if (VERTICAL_REPEAT_KEYS.includes(key)) {
+		return Math.abs(to.line - from.line) > lineThreshold;
+	}
+	if (HORIZONTAL_REPEAT_KEYS.includes(key)) {
+		return Math.abs(to.offset - from.offset) > charThreshold;
+	}
+	return false;
+}
+
+/**
+ * Decide whether a single cursor move is a jump worth flashing.
+ * Lines catch long moves between short lines; pixels catch long moves
+ * inside one heavily wrapped line. Either distance must strictly exceed its threshold.
+ */
+export function isDistantJump(
+	lineDelta: number,
+	pixelDelta: number,
+	lineThreshold: number,
+	pixelThreshold: number
+): boolean {
+	return Math.abs(lineDelta) > lineThreshold || Math.abs(pixelDelta) > pixelThreshold;
+}
+
+/**
+ * Decide whether the cursor's line is scrolled out of the visible editor area.
+ * A line counts as visible if any part of it is inside the area.
+ * All values are vertical pixel positions in the same coordinate space.
+ */
+export function getOffscreenDirection(
+	cursorTop: number,
+	cursorBottom: number,
+	visibleTop: number,
+	visibleBottom: number
+): 'above' | 'below' | null {
+	if (cursorBottom <= visibleTop) return 'above';
+	if (cursorTop >= visibleBottom) return 'below';
+	return null;
+}
+
+/**
+ * Choose the block to flash in Reading view, where there is no cursor.
+ * The last clicked block wins while any part of it is still visible;
+ * otherwise the first block that reaches into the visible area is used.
+ *
+ * @param blocks - Vertical extent of each rendered block, in document order
+ * @param visibleTop - Top of the visible area, in the same coordinate space
+ * @param visibleBottom - Bottom of the visible area
+ * @param clickedIndex - Index of the last clicked block, or -1
+ * @returns Index of the block to flash, or -1 if none is visible
+ */
+export function pickReadingBlock(
+	blocks: Array<{ top: number; bottom: number }>,
+	visibleTop: number,
+	visibleBottom: number,
+	clickedIndex: number = -1
+): number {
+	const isVisible = (block: { top: number; bottom: number }) =>
+		block.bottom > visibleTop && block.top < visibleBottom && block.bottom > block.top;
+	if (clickedIndex >= 0 && clickedIndex < blocks.length && isVisible(blocks[clickedIndex])) {
+		return clickedIndex;
+	}
+	return blocks.findIndex(isVisible);
+}
+
+/**
+ * Map the cursor line's position in the scrollable content onto the scrollbar track.
+ * Heights come from CM6's height map, so folded and wrapped lines are accounted for.
+ *
+ * @param lineTop - Top of the cursor line, in pixels from the top of the scrollable content
+ * @param lineHeight - Height of the cursor line block in pixels
+ * @param scrollHeight - Total height of the scrollable content
+ * @param trackHeight - Height of the visible scroller (the scrollbar track)
+ * @param minHeight - Smallest marker height, so single lines in long notes stay visible
+ * @returns Marker offset and height in pixels from the top of the track
+ */
+export function calculateScrollbarMarker(
+	lineTop: number,
+	lineHeight: number,
+	scrollHeight: number,
+	trackHeight: number,
+	minHeight: number = 3
+): { top: number; height: number } {
+	if (scrollHeight <= 0 || trackHeight <= 0) {
+		return { top: 0, height: minHeight };
+	}
+	const scale = trackHeight / scrollHeight;
+	const height = Math.max(minHeight, lineHeight * scale);
+	const top = Math.min(Math.max(0, lineTop * scale), trackHeight - height);
+	return { top, height };
+}
+
+/**
+ * Make a CSS color partly transparent.
+ * Uses color-mix so that it also works for theme colors that are
+ * var() or color-mix() expressions rather than hex values.
+ *
+ * @param color - Any CSS color
+ * @param opacity - 0 (transparent) to 1 (unchanged)
+ */
+export function fadeColor(color: string, opacity: number): string {
+	const percent = Math.round(Math.min(1, Math.max(0, opacity)) * 100);
+	return `color-mix(in srgb, ${color} ${percent}%, transparent)`;
+}
+
+export type CursorBlink = 'none' | 'classic' | 'smooth' | 'phase';
+
+/** How long the cursor stays solid after it moves, before it starts blinking */
+export const BLINK_RESUME_DELAY = 500;
+
+/**
+ * CSS `animation` value for a blinking custom cursor (keyframes cursor-cue-blink-* in styles.css).
+ * Each blink has two identical keyframes; switching between them restarts the
+ * animation, the way CodeMirror restarts its own cursor's blink when it moves.
+ *
+ * @param blink - Blink mode
+ * @param rate - Length of one blink (on and off) in milliseconds
+ * @param restarts - Incremented whenever the cursor moves or the document changes
+ * @returns The animation, or an empty string if the cursor doesn't blink
+ */
+export function blinkAnimation(blink: CursorBlink, rate: number, restarts: number): string {
+	if (blink === 'none' || !(rate > 0)) return '';
+	const timing = blink === 'classic' ? 'steps(1)' : 'ease-in-out';
+	return `cursor-cue-blink-${blink}-${restarts % 2 === 0 ? 'a' : 'b'} ${rate}ms ${timing} ${BLINK_RESUME_DELAY}ms infinite`;
+}
+
+/**
+ * Direction of the character on one side of an offset, from CodeMirror's bidi spans
+ * for the line (odd levels are right-to-left).
+ *
+ * @param spans - Bidi spans of the line, as returned by EditorView.bidiSpans
+ * @param offset - Offset in the line
+ * @param side - 1 for the character after the offset, -1 for the one before
+ * @param fallback - Direction when there is no character on that side (empty line, line edge)
+ */
+export function directionAtOffset(
+	spans: ReadonlyArray<{ from: number; to: number; level: number }>,
+	offset: number,
+	side: 1 | -1,
+	fallback: 'ltr' | 'rtl'
+): 'ltr' | 'rtl' {
+	const span = spans.find(s => side > 0 ? s.from <= offset && offset < s.to : s.from < offset && offset <= s.to);
+	if (!span) return fallback;
+	return span.level % 2 === 1 ? 'rtl' : 'ltr';
+}
+
+/**
+ * Resolve the "left" and "right" line highlight modes for the line's direction.
+ * They mean "fade from the line start" and "fade from the line end", so on
+ * right-to-left lines they swap sides.
+ */
+export function resolveHighlightSide<T extends string>(mode: T, direction: 'ltr' | 'rtl'): T | 'left' | 'right' {
+	if (direction === 'rtl') {
+		if (mode === 'left') return 'right';
+		if (mode === 'right') return 'left';
+	}
+	return mode;
+}
+
+/** The part of Intl.Segmenter used here (not in this project's ES lib typings) */
+interface GraphemeSegmenter {
+	segment(text: string): { containing(index: number): { index: number; segment: string } | undefined };
+}
+
+let graphemeSegmenter: GraphemeSegmenter | null | undefined;
+
+/**
+ * Find where the user-perceived character (grapheme cluster) starting at an
+ * offset ends, so a block cursor never splits emoji, ZWJ sequences, flags,
+ * combining marks or conjuncts. Uses Intl.Segmenter, falling back to
+ * CodeMirror's cluster logic where it is unavailable.
+ *
+ * @param text - Line text
+ * @param offset - Offset of the cursor in the line
+ * @returns Offset just after the grapheme at `offset` (text.length at the end of the line)
+ */
+export function nextGraphemeBreak(text: string, offset: number): number {
+	if (offset >= text.length) return text.length;
+	if (graphemeSegmenter === undefined) {
+		const Segmenter = (Intl as unknown as {
+			Segmenter?: new (locale?: string, options?: { granularity: 'grapheme' }) => GraphemeSegmenter;
+		}).Segmenter;
+		graphemeSegmenter = Segmenter ? new Segmenter(undefined, { granularity: 'grapheme' }) : null;
+	}
+	const segment = graphemeSegmenter?.segment(text).containing(offset);
+	if (segment) return segment.index + segment.segment.length;
+	return findClusterBreak(text, offset);
+}
+
 /**
  * Convert RGB to HSL
  */
@@ -245,26 +556,26 @@ export interface SoftWrapDetectionParams {
 	/** CM6 selection assoc value (-1, 0, or 1) */
 	assoc: number;
 	/**
-	 * Whether the End key was pressed recently (within the 100ms window).
-	 *
-	 * In main.ts this is managed by a capture-phase window.keydown listener that
-	 * fires BEFORE CM6's bubble-phase handlers process the key and call update().
-	 * This ensures the flag is already set (for End) or cleared (for any other key)
-	 * by the time buildDecorations reads it.
+	 * Whether another plugin announced a move to the end of a visual line
+	 * (api.signalLineEnd()), for commands that don't set assoc.
 	 */
-	endKeyPressedRecently: boolean;
+	lineEndSignalled: boolean;
+	/**
+	 * Which way the cursor moved to get here: 1 forward (towards the document
+	 * end), -1 backward, 0 unknown or didn't move. Only consulted when assoc is 0.
+	 */
+	movement: -1 | 0 | 1;
 	/**
 	 * The .top coordinate of the position approached from the left (-1 side).
-	 * null means coordsAtPos returned null; undefined means not called or threw.
+	 * null means coordsAtPos returned null; undefined means not measured yet.
 	 *
-	 * NOTE: coordsAtPos returns different .top values at BOTH soft-wrap ends AND
-	 * soft-wrap starts, so geometry alone cannot distinguish the two cases.
-	 * main.ts passes undefined here; the field is kept for potential future use.
+	 * Both sides land on different rows at soft-wrap ends AND soft-wrap starts
+	 * (it is the same document position), so geometry only tells whether pos is
+	 * a wrap boundary; the other signals pick the side.
 	 */
 	coordsLeftTop: number | null | undefined;
 	/**
 	 * The .top coordinate of the position approached from the right (+1 side).
-	 * null means coordsAtPos returned null; undefined means not called or threw.
 	 * See note on coordsLeftTop.
 	 */
 	coordsRightTop: number | null | undefined;
@@ -278,20 +589,20 @@ export interface SoftWrapDetectionParams {
  * Detection strategy:
  *
  * 1. Guard: reject if not mid-line on a wrapped document.
- * 2. assoc === -1 means CM6 has biased the cursor to the left, which
- *    happens at soft-wrap ends regardless of how the cursor got there.
- *    This is now reliable because the emacs plugin's move-beginning-of-line
- *    fix correctly places soft-wrap start positions with assoc = +1, so
- *    assoc = -1 is no longer ambiguous.
- * 3. Geometry step (authoritative when available): if numeric coords are provided,
- *    they can confirm or override the assoc signal.
- *
- * NOTE: endKeyPressedRecently is kept in the interface for backward compatibility
- * but is no longer consulted. The assoc signal is now the primary discriminator.
+ * 2. Geometry (when measured): if both sides of pos are on the same visual
+ *    row, pos is not a wrap boundary, whatever the other signals say.
+ * 3. At a boundary (or before geometry is available), pick the side:
+ *    - a line-end signal or assoc = -1 (End, Vim g$, clicks past the row
+ *      end, → onto the boundary) means the end of the upper row;
+ *    - assoc = +1 (Home, emacs move-beginning-of-line) means the start of
+ *      the lower row;
+ *    - assoc = 0 (commands that set a bare cursor): only with geometry, the
+ *      cursor stays on the row it came along, so a forward move ends at the
+ *      upper row's end and anything else at the lower row's start.
  */
 export function detectSoftWrapEnd(params: SoftWrapDetectionParams): boolean {
 	const {
-		lineWrapping, isEOL, isMidDocLine, assoc,
+		lineWrapping, isEOL, isMidDocLine, assoc, lineEndSignalled, movement,
 		coordsLeftTop, coordsRightTop, actualLineHeight
 	} = params;
 
@@ -300,16 +611,18 @@ export function detectSoftWrapEnd(params: SoftWrapDetectionParams): boolean {
 		return false;
 	}
 
-	// assoc === -1 means CM6 has biased the cursor to the left, which
-	// happens at soft-wrap ends regardless of how the cursor got there.
-	if (assoc === -1) {
-		return true;
+	const hasGeometry = typeof coordsLeftTop === 'number' && typeof coordsRightTop === 'number';
+	if (hasGeometry && Math.abs(coordsLeftTop - coordsRightTop) <= actualLineHeight * 0.5) {
+		// Same row on both sides: not a wrap boundary
+		return false;
 	}
 
-	// Geometry override (authoritative when available)
-	if (typeof coordsLeftTop === 'number' && typeof coordsRightTop === 'number') {
-		return Math.abs(coordsLeftTop - coordsRightTop) > actualLineHeight * 0.5;
+	if (lineEndSignalled || assoc < 0) {
+		return true;
+	}
+	if (assoc > 0) {
+		return false;
 	}
 
-	return false;
+	return hasGeometry && movement > 0;
 }
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
+import type { EditorView } from '@codemirror/view';
+import { CursorCuesApi, API_VERSION, type CursorCueHost, type FlashEventInfo } from '../src/api';
+
+/**
+ * Test suite for the public API handed to other plugins
+ */
+describe('CursorCuesApi', () => {
+	let host: { [K in keyof CursorCueHost]: Mock<CursorCueHost[K]> };
+	let api: CursorCuesApi;
+	const view = {} as EditorView;
+	const info = (trigger: string): FlashEventInfo => ({ view, trigger, duration: 500 });
+
+	beforeEach(() => {
+		host = { showFlash: vi.fn(), suppressFlashes: vi.fn(), signalLineEnd: vi.fn() };
+		api = new CursorCuesApi(host);
+	});
+
+	it('should report its version', () => {
+		expect(api.version).toBe(API_VERSION);
+	});
+
+	describe('flash', () => {
+		it('should pass valid options through', () => {
+			api.flash(view, { trigger: 'my-plugin', style: 'locator', duration: 800 });
+			expect(host.showFlash).toHaveBeenCalledWith(view, { trigger: 'my-plugin', style: 'locator', duration: 800 });
+		});
+
+		it('should flash the active editor without options', () => {
+			api.flash();
+			expect(host.showFlash).toHaveBeenCalledWith(undefined, undefined);
+		});
+
+		it('should drop durations that are not positive and finite', () => {
+			for (const duration of [0, -100, NaN, Infinity, '500' as unknown as number]) {
+				api.flash(view, { duration });
+				expect(host.showFlash).toHaveBeenLastCalledWith(view, {});
+			}
+		});
+
+		it('should drop unknown styles', () => {
+			api.flash(view, { style: 'sparkle' as never, duration: 300 });
+			expect(host.showFlash).toHaveBeenLastCalledWith(view, { duration: 300 });
+			api.flash(view, { style: 'off' as never });
+			expect(host.showFlash).toHaveBeenLastCalledWith(view, {});
+		});
+
+		it('should drop empty triggers', () => {
+			api.flash(view, { trigger: '' });
+			expect(host.showFlash).toHaveBeenLastCalledWith(view, {});
+		});
+	});
+
+	it('should forward suppress and signalLineEnd to the plugin', () => {
+		api.suppress(300);
+		api.signalLineEnd();
+		expect(host.suppressFlashes).toHaveBeenCalledWith(300);
+		expect(host.signalLineEnd).toHaveBeenCalled();
+	});
+
+	describe('flash events', () => {
+		let events: string[];
+
+		beforeEach(() => {
+			events = [];
+			api.on('flash-start', ({ trigger }) => events.push(`start ${trigger}`));
+			api.on('flash-end', ({ trigger }) => events.push(`end ${trigger}`));
+		});
+
+		it('should send a flash-end for each flash-start', () => {
+			const flash = info('a');
+			api.flashStarted(flash);
+			api.flashEnded(flash);
+			expect(events).toEqual(['start a', 'end a']);
+		});
+
+		it('should end a flash that a new flash cuts short', () => {
+			const first = info('a');
+			const second = info('b');
+			api.flashStarted(first);
+			api.flashStarted(second);
+			// The first flash's own timer fires late; it was already ended
+			api.flashEnded(first);
+			api.flashEnded(second);
+			expect(events).toEqual(['start a', 'end a', 'start b', 'end b']);
+		});
+
+		it('should end the running flash when no flash is given', () => {
+			api.flashStarted(info('a'));
+			api.flashEnded();
+			api.flashEnded();
+			expect(events).toEqual(['start a', 'end a']);
+		});
+
+		it('should stop calling a listener after offref', () => {
+			const callback = vi.fn();
+			const ref = api.on('flash-start', callback);
+			api.offref(ref);
+			api.flashStarted(info('a'));
+			expect(callback).not.toHaveBeenCalled();
+		});
+	});
+});
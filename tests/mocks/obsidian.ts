@@ -0,0 +1,24 @@
+// The obsidian package only ships type definitions; tests that import modules
+// using its runtime classes get these stand-ins (see vitest.config.ts)
+import type { EventRef } from 'obsidian';
+
+type Callback = (...data: unknown[]) => unknown;
+
+export class Events {
+	private handlers = new Map<string, Set<Callback>>();
+
+	on(name: string, callback: Callback): EventRef {
+		if (!this.handlers.has(name)) this.handlers.set(name, new Set());
+		this.handlers.get(name)!.add(callback);
+		return { name, callback } as unknown as EventRef;
+	}
+
+	offref(ref: EventRef): void {
+		const { name, callback } = ref as unknown as { name: string; callback: Callback };
+		this.handlers.get(name)?.delete(callback);
+	}
+
+	trigger(name: string, ...data: unknown[]): void {
+		this.handlers.get(name)?.forEach(callback => callback(...data));
+	}
+}
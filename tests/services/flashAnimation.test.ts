@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FlashAnimator, type FlashAnimation } from '../../src/services/flashAnimation';
+
+describe('FlashAnimator Service', () => {
+  let animator: FlashAnimator;
+  const fade: FlashAnimation = { effect: 'fade', easing: 'ease-out', repeat: 1, intensity: 1 };
+
+  beforeEach(() => {
+    animator = new FlashAnimator();
+  });
+
+  describe('animationValue', () => {
+    it('should play the effect keyframes once over the flash duration', () => {
+      expect(animator.animationValue(fade, 600)).toBe('flash-effect-fade 600ms ease-out 0ms 1 both');
+    });
+
+    it('should split the duration between repeats', () => {
+      const pulse: FlashAnimation = { ...fade, effect: 'pulse', repeat: 3 };
+      expect(animator.animationValue(pulse, 900)).toBe('flash-effect-pulse 300ms ease-out 0ms 3 both');
+    });
+
+    it('should play at least once', () => {
+      expect(animator.animationValue({ ...fade, repeat: 0 }, 500)).toContain(' 1 both');
+    });
+
+    it('should map bounce to an overshooting curve', () => {
+      expect(animator.animationValue({ ...fade, easing: 'bounce' }, 500))
+        .toContain('cubic-bezier(0.34, 1.56, 0.64, 1)');
+    });
+
+    it('should join a running flash with a negative delay', () => {
+      expect(animator.animationValue(fade, 600, 250)).toContain(' -250ms ');
+      // Never further back than the whole flash
+      expect(animator.animationValue(fade, 600, 900)).toContain(' -600ms ');
+    });
+  });
+
+  describe('animationVariables', () => {
+    it('should carry the intensity and animation in CSS variables', () => {
+      const css = animator.animationVariables({ ...fade, intensity: 0.5 }, 600);
+      expect(css).toContain('--cursor-cue-intensity: 0.5;');
+      expect(css).toContain('--cursor-cue-animation: flash-effect-fade 600ms');
+      expect(css).not.toContain('animation: var(');
+    });
+
+    it('should clamp the intensity', () => {
+      expect(animator.animationVariables({ ...fade, intensity: 3 }, 600)).toContain('--cursor-cue-intensity: 1;');
+      expect(animator.animationVariables({ ...fade, intensity: NaN }, 600)).toContain('--cursor-cue-intensity: 1;');
+    });
+  });
+
+  describe('buildAnimationCSS', () => {
+    it('should animate the element and set the ripple color', () => {
+      const css = animator.buildAnimationCSS({ ...fade, effect: 'ripple' }, 600, 'rgba(1, 2, 3, 0.5)');
+      expect(css).toContain('--cursor-cue-color: rgba(1, 2, 3, 0.5);');
+      expect(css).toContain('--cursor-cue-animation: flash-effect-ripple 600ms');
+      expect(css).toContain('animation: var(--cursor-cue-animation);');
+    });
+  });
+});
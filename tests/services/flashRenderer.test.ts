@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FlashRenderer, type FlashGeometry, type FlashColor } from '../../src/services/flashRenderer';
+
+describe('FlashRenderer Service', () => {
+  let renderer: FlashRenderer;
+  const color: FlashColor = { rgb: { r: 255, g: 0, b: 0 }, opacity: 0.8 };
+  // 400px wide line at y = 100, cursor a quarter of the way in, 600px tall visible area
+  const geometry: FlashGeometry = {
+    line: { left: 0, top: 100, width: 400, height: 20 },
+    cursor: { x: 100, y: 110 },
+    area: { left: 0, top: 0, width: 400, height: 600 },
+    distance: 80
+  };
+
+  beforeEach(() => {
+    renderer = new FlashRenderer();
+  });
+
+  describe('buildGradientCSS', () => {
+    it('should scale stop opacity by the flash opacity', () => {
+      const css = renderer.buildGradientCSS(geometry.line, color, [{
+        direction: 'to right',
+        stops: [{ at: 0, strength: 1 }, { at: 50, strength: 0.5 }, { at: 100, strength: 0 }]
+      }]);
+      expect(css).toContain('linear-gradient(to right, rgba(255, 0, 0, 0.8) 0%, rgba(255, 0, 0, 0.4) 50%, rgba(255, 0, 0, 0) 100%)');
+    });
+
+    it('should place the element at the box', () => {
+      const css = renderer.buildGradientCSS({ left: 10, top: 20, width: 30, height: 40 }, color, [{
+        direction: 'to bottom',
+        stops: [{ at: 0, strength: 1 }]
+      }]);
+      expect(css).toContain('left: 10px;');
+      expect(css).toContain('top: 20px;');
+      expect(css).toContain('width: 30px;');
+      expect(css).toContain('height: 40px;');
+    });
+
+    it('should size and position each layer', () => {
+      const css = renderer.buildGradientCSS(geometry.area, color, [
+        { direction: 'to right', stops: [{ at: 0, strength: 1 }], area: { left: 0, top: 100, width: 400, height: 20 } },
+        { direction: 'to bottom', stops: [{ at: 0, strength: 1 }] }
+      ]);
+      expect(css).toContain('background-size: 400px 20px, 100% 100%;');
+      expect(css).toContain('background-position: 0px 100px, 0 0;');
+      expect(css).toContain('background-repeat: no-repeat;');
+    });
+
+    it('should draw radial layers around their center', () => {
+      const css = renderer.buildGradientCSS(geometry.area, color, [{
+        center: { x: 100, y: 110 },
+        radius: 60,
+        stops: [{ at: 100, strength: 1, rgb: { r: 0, g: 0, b: 0 } }]
+      }]);
+      expect(css).toContain('radial-gradient(circle 60px at 100px 110px, rgba(0, 0, 0, 0.8) 100%)');
+    });
+  });
+
+  describe('buildShapeCSS', () => {
+    it('should fade left and right highlights over the flash distance', () => {
+      // 80px of a 400px line is 20%
+      expect(renderer.buildShapeCSS('left', geometry, color)).toContain('linear-gradient(to right,');
+      expect(renderer.buildShapeCSS('left', geometry, color)).toContain('rgba(255, 0, 0, 0) 20%');
+      expect(renderer.buildShapeCSS('right', geometry, color)).toContain('linear-gradient(to left,');
+    });
+
+    it('should peak the centered highlight at the cursor', () => {
+      const css = renderer.buildShapeCSS('centered', geometry, color);
+      expect(css).toContain('rgba(255, 0, 0, 0.8) 25%');
+      expect(css).toContain('rgba(255, 0, 0, 0) 15%');
+      expect(css).toContain('rgba(255, 0, 0, 0) 35%');
+    });
+
+    it('should fill the line with a band', () => {
+      const css = renderer.buildShapeCSS('band', geometry, color);
+      expect(css).toContain('top: 100px;');
+      expect(css).toContain('height: 20px;');
+      expect(css).toContain('rgba(255, 0, 0, 0.8) 25%');
+    });
+
+    it('should draw the column through the cursor across the visible area', () => {
+      const css = renderer.buildShapeCSS('column', geometry, color);
+      expect(css).toContain('height: 600px;');
+      // 20px wide, centered on x = 100
+      expect(css).toContain('background-size: 20px 600px;');
+      expect(css).toContain('background-position: 90px 0px;');
+    });
+
+    it('should combine band and column in the crosshair', () => {
+      const css = renderer.buildShapeCSS('crosshair', geometry, color);
+      expect(css).toContain('background-size: 400px 20px, 20px 600px;');
+      expect(css).toContain('background-position: 0px 100px, 90px 0px;');
+    });
+
+    it('should scale effects around the cursor', () => {
+      expect(renderer.buildShapeCSS('centered', geometry, color)).toContain('transform-origin: 100px 10px;');
+      expect(renderer.buildShapeCSS('column', geometry, color)).toContain('transform-origin: 100px 110px;');
+    });
+
+    it('should dim around the cursor with the spotlight', () => {
+      const css = renderer.buildShapeCSS('spotlight', geometry, color);
+      expect(css).toContain('radial-gradient(circle 80px at 100px 110px,');
+      expect(css).toMatch(/rgba\(0, 0, 0, 0\.64\d*\) 100%/);
+    });
+  });
+
+  describe('buildTrailCSS', () => {
+    it('should end the trail at the new cursor position', () => {
+      // 30-40-50 triangle: from (10, 20) to (40, 60)
+      const css = renderer.buildTrailCSS({ x: 10, y: 20 }, { x: 40, y: 60 }, 4, color, 500);
+      expect(css).toContain('width: 50px;');
+      expect(css).toContain('left: -10px;');
+      expect(css).toContain('top: 58px;');
+      expect(css).toContain('transform-origin: 100% 50%;');
+      expect(css).toContain(`rotate: ${Math.atan2(40, 30)}rad;`);
+    });
+
+    it('should fade the tail and retract over the flash duration', () => {
+      const css = renderer.buildTrailCSS({ x: 0, y: 0 }, { x: 100, y: 0 }, 4, color, 500);
+      expect(css).toContain('linear-gradient(to right, rgba(255, 0, 0, 0), rgba(255, 0, 0, 0.8))');
+      expect(css).toContain('animation: flash-trail-retract 500ms');
+    });
+  });
+
+  describe('buildEdgeArrowCSS', () => {
+    it('should center the arrow on x and point it at the old position', () => {
+      const up = renderer.buildEdgeArrowCSS({ x: 100, y: 4 }, 'up', 20, color, 500);
+      expect(up).toContain('left: 90px;');
+      expect(up).toContain('top: 4px;');
+      expect(up).toContain('clip-path: polygon(50% 0, 100% 100%, 0 100%);');
+
+      const down = renderer.buildEdgeArrowCSS({ x: 100, y: 576 }, 'down', 20, color, 500);
+      expect(down).toContain('clip-path: polygon(0 0, 100% 0, 50% 100%);');
+    });
+  });
+});
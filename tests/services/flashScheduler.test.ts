@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { FlashScheduler, FlashState } from '../../src/services/flashScheduler';
+import { FlashScheduler, FlashState, type RowLocator } from '../../src/services/flashScheduler';
 
 describe('FlashScheduler Service', () => {
   let scheduler: FlashScheduler;
@@ -45,6 +45,19 @@ describe('FlashScheduler Service', () => {
       expect(scheduler.canScheduleFlash('view-change', state)).toBe(true);
     });
 
+    it('should allow jump-key even with active fence', () => {
+      const now = Date.now();
+      const state: FlashState = {
+        isFenceActive: true,
+        isFlashActive: false,
+        hasPendingFlash: false,
+        lastViewChange: now - 500,
+        now: now,
+      };
+
+      expect(scheduler.canScheduleFlash('jump-key', state)).toBe(true);
+    });
+
     it('should block flash when already active', () => {
       const state: FlashState = {
         isFenceActive: false,
@@ -69,6 +82,51 @@ describe('FlashScheduler Service', () => {
       expect(scheduler.canScheduleFlash('scroll', state)).toBe(false);
     });
 
+    it('should block scroll trigger while typing', () => {
+      const now = Date.now();
+      const state: FlashState = {
+        isFenceActive: false,
+        isFlashActive: false,
+        hasPendingFlash: false,
+        lastViewChange: now - 500,
+        now: now,
+        isTypingActive: true,
+      };
+
+      expect(scheduler.canScheduleFlash('scroll', state)).toBe(false);
+      expect(scheduler.canScheduleFlash('jump-key', state)).toBe(true);
+    });
+
+    it('should allow classified jumps even with active fence', () => {
+      const now = Date.now();
+      const state: FlashState = {
+        isFenceActive: true,
+        isFlashActive: false,
+        hasPendingFlash: false,
+        lastViewChange: now - 500,
+        now: now,
+      };
+
+      expect(scheduler.canScheduleFlash('search-jump', state)).toBe(true);
+      expect(scheduler.canScheduleFlash('history-jump', state)).toBe(true);
+    });
+
+    it('should block every trigger while suppressed through the API', () => {
+      const now = Date.now();
+      const state: FlashState = {
+        isFenceActive: false,
+        isFlashActive: false,
+        hasPendingFlash: false,
+        lastViewChange: now - 500,
+        now: now,
+        isSuppressed: true,
+      };
+
+      expect(scheduler.canScheduleFlash('scroll', state)).toBe(false);
+      expect(scheduler.canScheduleFlash('view-change', state)).toBe(false);
+      expect(scheduler.canScheduleFlash('jump-key', state)).toBe(false);
+    });
+
     it('should respect minimum time between flashes', () => {
       const now = Date.now();
       const state: FlashState = {
@@ -110,6 +168,70 @@ describe('FlashScheduler Service', () => {
     });
   });
 
+  describe('shouldFlashAfterRepeat', () => {
+    const thresholds = { lines: 10, chars: 40 };
+
+    it('should flash after a long vertical repeat', () => {
+      expect(scheduler.shouldFlashAfterRepeat('ArrowDown', { line: 5, offset: 50 }, { line: 30, offset: 900 }, thresholds)).toBe(true);
+    });
+
+    it('should not flash after a short vertical repeat', () => {
+      expect(scheduler.shouldFlashAfterRepeat('ArrowUp', { line: 5, offset: 50 }, { line: 2, offset: 10 }, thresholds)).toBe(false);
+    });
+
+    it('should flash after a long horizontal repeat', () => {
+      expect(scheduler.shouldFlashAfterRepeat('ArrowRight', { line: 0, offset: 0 }, { line: 0, offset: 60 }, thresholds)).toBe(true);
+    });
+  });
+
+  describe('isDistantJump', () => {
+    const thresholds = { lines: 10, pixels: 400 };
+
+    it('should treat a far line move as a jump', () => {
+      expect(scheduler.isDistantJump({ line: 3, top: 48 }, { line: 120, top: 2880 }, thresholds)).toBe(true);
+    });
+
+    it('should treat a tall move inside one wrapped line as a jump', () => {
+      expect(scheduler.isDistantJump({ line: 7, top: 100 }, { line: 7, top: 700 }, thresholds)).toBe(true);
+    });
+
+    it('should ignore a one-line move', () => {
+      expect(scheduler.isDistantJump({ line: 7, top: 144 }, { line: 8, top: 168 }, thresholds)).toBe(false);
+    });
+  });
+
+  describe('jumpPoint', () => {
+    const thresholds = { lines: 10, pixels: 400 };
+    // Line 1 is a wrapped paragraph of 1000 characters, 25 per 20px row (800px tall);
+    // line 2 starts right below it
+    const rowLocator = (rendered = true): RowLocator => ({
+      lineAt: pos => (pos <= 1000 ? 1 : 2),
+      rowTopAt: (pos) => {
+        if (!rendered) return null;
+        return pos <= 1000 ? Math.floor(pos / 25) * 20 : 800;
+      },
+      blockTopAt: pos => (pos <= 1000 ? 0 : 800)
+    });
+
+    it('should measure moves between rows of one wrapped line', () => {
+      const from = scheduler.jumpPoint(rowLocator(), 10, 1);
+      const to = scheduler.jumpPoint(rowLocator(), 990, 1);
+      expect(to.top - from.top).toBe(780);
+      expect(scheduler.isDistantJump(from, to, thresholds)).toBe(true);
+    });
+
+    it('should keep a one-row move out of a tall line quiet', () => {
+      const from = scheduler.jumpPoint(rowLocator(), 990, 1);
+      const to = scheduler.jumpPoint(rowLocator(), 1001, 1);
+      expect(to.top - from.top).toBe(20);
+      expect(scheduler.isDistantJump(from, to, thresholds)).toBe(false);
+    });
+
+    it('should fall back to the line block outside the rendered viewport', () => {
+      expect(scheduler.jumpPoint(rowLocator(false), 990, 1)).toEqual({ line: 1, top: 0 });
+    });
+  });
+
   describe('scheduleCallback', () => {
     it('should return a valid timeout ID', () => {
       const callback = () => {};
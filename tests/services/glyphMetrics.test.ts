@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GlyphMetrics, type TextMeasurer } from '../../src/services/glyphMetrics';
+
+describe('GlyphMetrics Service', () => {
+  let measureText: ReturnType<typeof vi.fn<TextMeasurer>>;
+  let metrics: GlyphMetrics;
+  const body = '400 16px / 24px Inter';
+  const heading = '700 32px / 40px Inter';
+
+  beforeEach(() => {
+    // 8px per character for body text, 16px for headings
+    measureText = vi.fn<TextMeasurer>((font, text) => text.length * (font === heading ? 16 : 8));
+    metrics = new GlyphMetrics(measureText);
+  });
+
+  describe('charWidth', () => {
+    it('should measure the average character width of a font', () => {
+      expect(metrics.charWidth(body, 1)).toBe(8);
+      expect(metrics.charWidth(heading, 1)).toBe(16);
+    });
+
+    it('should cache per font and zoom', () => {
+      metrics.charWidth(body, 1);
+      metrics.charWidth(body, 1);
+      expect(measureText).toHaveBeenCalledTimes(1);
+
+      metrics.charWidth(body, 1.25);
+      expect(measureText).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return null when the font cannot be measured', () => {
+      const unmeasurable = new GlyphMetrics(() => NaN);
+      expect(unmeasurable.charWidth(body, 1)).toBeNull();
+      expect(unmeasurable.spanWidth(body, 1, 8)).toBeNull();
+    });
+  });
+
+  describe('spanWidth', () => {
+    it('should give the width of a number of characters', () => {
+      expect(metrics.spanWidth(body, 1, 8)).toBe(64);
+      expect(metrics.spanWidth(heading, 1, 8)).toBe(128);
+    });
+  });
+
+  describe('lineBox', () => {
+    it('should be unknown until recorded', () => {
+      expect(metrics.lineBox(body, 1)).toBeUndefined();
+    });
+
+    it('should store recorded boxes per font and zoom', () => {
+      expect(metrics.recordLineBox(body, 1, { height: 24, descent: 3 })).toBe(true);
+      expect(metrics.lineBox(body, 1)).toEqual({ height: 24, descent: 3 });
+      expect(metrics.lineBox(body, 2)).toBeUndefined();
+      expect(metrics.lineBox(heading, 1)).toBeUndefined();
+    });
+
+    it('should report no change for sub-pixel differences', () => {
+      metrics.recordLineBox(body, 1, { height: 24, descent: 3 });
+      expect(metrics.recordLineBox(body, 1, { height: 24.2, descent: 3.1 })).toBe(false);
+      expect(metrics.recordLineBox(body, 1, { height: 24, descent: 5 })).toBe(true);
+      expect(metrics.recordLineBox(body, 1, { height: 26, descent: 5 })).toBe(true);
+      expect(metrics.lineBox(body, 1)).toEqual({ height: 26, descent: 5 });
+    });
+
+    it('should ignore invalid boxes', () => {
+      expect(metrics.recordLineBox(body, 1, { height: 0, descent: 0 })).toBe(false);
+      expect(metrics.recordLineBox(body, 1, { height: NaN, descent: 0 })).toBe(false);
+      expect(metrics.recordLineBox(body, 1, { height: 24, descent: NaN })).toBe(false);
+      expect(metrics.lineBox(body, 1)).toBeUndefined();
+    });
+  });
+
+  it('should forget everything on clear', () => {
+    metrics.charWidth(body, 1);
+    metrics.recordLineBox(body, 1, { height: 24, descent: 3 });
+    metrics.clear();
+
+    expect(metrics.lineBox(body, 1)).toBeUndefined();
+    metrics.charWidth(body, 1);
+    expect(measureText).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OffscreenIndicator, type OffscreenState } from '../../src/services/offscreenIndicator';
+
+/** Just enough of an element for the indicator; the tests run without a DOM */
+function createFakeElement() {
+  const classes = new Set<string>();
+  const listeners = new Map<string, (event: unknown) => void>();
+  return {
+    className: '',
+    textContent: '',
+    style: {} as Record<string, string>,
+    attributes: {} as Record<string, string>,
+    removed: false,
+    classList: {
+      contains: (name: string) => classes.has(name),
+      toggle: (name: string, force: boolean) => { if (force) classes.add(name); else classes.delete(name); }
+    },
+    setAttribute(name: string, value: string) { this.attributes[name] = value; },
+    addEventListener: (type: string, listener: (event: unknown) => void) => { listeners.set(type, listener); },
+    removeEventListener: (type: string) => { listeners.delete(type); },
+    dispatch: (type: string) => {
+      const event = { preventDefault: vi.fn() };
+      listeners.get(type)?.(event);
+      return event;
+    },
+    remove() { this.removed = true; }
+  };
+}
+
+describe('OffscreenIndicator Service', () => {
+  let element: ReturnType<typeof createFakeElement>;
+  let host: HTMLElement;
+  let onActivate: ReturnType<typeof vi.fn<() => void>>;
+  let indicator: OffscreenIndicator;
+  const state = (direction: OffscreenState['direction'], distance = 12): OffscreenState =>
+    ({ direction, distance, color: '#ff0000', textColor: '#ffffff' });
+
+  beforeEach(() => {
+    element = createFakeElement();
+    host = {
+      ownerDocument: { createElement: () => element },
+      appendChild: vi.fn()
+    } as unknown as HTMLElement;
+    onActivate = vi.fn<() => void>();
+    indicator = new OffscreenIndicator(host, onActivate);
+  });
+
+  it('should start hidden in the host', () => {
+    expect(host.appendChild).toHaveBeenCalledWith(element);
+    expect(element.className).toBe('cursor-cue-offscreen-indicator');
+    expect(element.style.display).toBe('none');
+  });
+
+  it('should point up at a cursor above the view', () => {
+    indicator.update(state('above'));
+    expect(element.style.display).toBe('');
+    expect(element.textContent).toBe('↑ 12 lines');
+    expect(element.classList.contains('is-above')).toBe(true);
+    expect(element.classList.contains('is-below')).toBe(false);
+    expect(element.style.backgroundColor).toBe('#ff0000');
+    expect(element.style.color).toBe('#ffffff');
+  });
+
+  it('should point down at a cursor below the view', () => {
+    indicator.update(state('above'));
+    indicator.update(state('below', 1));
+    expect(element.textContent).toBe('↓ 1 line');
+    expect(element.classList.contains('is-above')).toBe(false);
+    expect(element.classList.contains('is-below')).toBe(true);
+  });
+
+  it('should hide once the cursor is back in view', () => {
+    indicator.update(state('below'));
+    indicator.update(state(null));
+    expect(element.style.display).toBe('none');
+  });
+
+  it('should activate on click without taking focus', () => {
+    expect(element.dispatch('mousedown').preventDefault).toHaveBeenCalled();
+    expect(onActivate).not.toHaveBeenCalled();
+    element.dispatch('click');
+    expect(onActivate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remove the pill and its listeners on destroy', () => {
+    indicator.destroy();
+    expect(element.removed).toBe(true);
+    element.dispatch('click');
+    expect(onActivate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ScrollbarMarker, type ScrollbarMarkerPlacement } from '../../src/services/scrollbarMarker';
+
+/** Just enough of an element for the marker; the tests run without a DOM */
+function createFakeElement() {
+  const classes = new Set<string>();
+  return {
+    className: '',
+    offsetWidth: 0,
+    style: {} as Record<string, string>,
+    removed: false,
+    classList: {
+      contains: (name: string) => classes.has(name),
+      add: (name: string) => { classes.add(name); },
+      remove: (name: string) => { classes.delete(name); }
+    },
+    setAttribute: () => {},
+    remove() { this.removed = true; }
+  };
+}
+
+describe('ScrollbarMarker Service', () => {
+  let element: ReturnType<typeof createFakeElement>;
+  let marker: ScrollbarMarker;
+  const placement: ScrollbarMarkerPlacement = { visible: true, top: 120, height: 4, width: 8, color: '#ff0000' };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    element = createFakeElement();
+    marker = new ScrollbarMarker({
+      ownerDocument: { createElement: () => element },
+      appendChild: () => {}
+    } as unknown as HTMLElement);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('update', () => {
+    it('should start hidden', () => {
+      expect(element.className).toBe('cursor-cue-scrollbar-marker');
+      expect(element.style.display).toBe('none');
+    });
+
+    it('should place the marker on the track', () => {
+      marker.update(placement);
+      expect(element.style).toMatchObject({
+        top: '120px', height: '4px', width: '8px', backgroundColor: '#ff0000', display: ''
+      });
+    });
+
+    it('should hide the marker when there is nothing to scroll', () => {
+      marker.update(placement);
+      marker.update({ ...placement, visible: false });
+      expect(element.style.display).toBe('none');
+    });
+  });
+
+  describe('emphasise', () => {
+    it('should emphasise the marker for the given duration', () => {
+      marker.emphasise(500);
+      expect(element.classList.contains('is-emphasised')).toBe(true);
+      expect(element.style.animationDuration).toBe('500ms');
+
+      vi.advanceTimersByTime(499);
+      expect(element.classList.contains('is-emphasised')).toBe(true);
+      vi.advanceTimersByTime(1);
+      expect(element.classList.contains('is-emphasised')).toBe(false);
+    });
+
+    it('should restart the emphasis when flashed again', () => {
+      marker.emphasise(500);
+      vi.advanceTimersByTime(400);
+      marker.emphasise(500);
+      // The first timer no longer ends the second emphasis
+      vi.advanceTimersByTime(200);
+      expect(element.classList.contains('is-emphasised')).toBe(true);
+      vi.advanceTimersByTime(300);
+      expect(element.classList.contains('is-emphasised')).toBe(false);
+    });
+
+    it('should cancel the emphasis timer on destroy', () => {
+      marker.emphasise(500);
+      marker.destroy();
+      expect(element.removed).toBe(true);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+});
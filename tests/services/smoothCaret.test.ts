@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { CaretMarker, CaretLayerSwitch } from '../../src/services/smoothCaret';
+
+describe('CaretMarker', () => {
+  const doc = {} as Document;
+  const box = { left: 10, top: 20, width: 3, height: 18 };
+  // The tests run without a DOM; update() only needs a className and a style
+  const fakeElement = () => ({ className: '', style: { cssText: '' } }) as unknown as HTMLElement;
+
+  describe('eq', () => {
+    it('should match a caret at the same place', () => {
+      const caret = new CaretMarker(doc, box, 'cursor-cue-caret is-bar', '#f00', 80);
+      expect(caret.eq(new CaretMarker(doc, { ...box }, 'cursor-cue-caret is-bar', '#f00', 80))).toBe(true);
+    });
+
+    it('should not match a moved caret', () => {
+      const caret = new CaretMarker(doc, box, 'cursor-cue-caret is-bar', '#f00', 80);
+      expect(caret.eq(new CaretMarker(doc, { ...box, left: 30 }, 'cursor-cue-caret is-bar', '#f00', 80))).toBe(false);
+      expect(caret.eq(new CaretMarker(doc, box, 'cursor-cue-caret is-bar', '#f00', 0))).toBe(false);
+    });
+  });
+
+  describe('update', () => {
+    it('should move the existing element with a transition', () => {
+      const element = fakeElement();
+      const previous = new CaretMarker(doc, box, 'cursor-cue-caret is-bar', '#f00', 80);
+      const next = new CaretMarker(doc, { ...box, left: 50 }, 'cursor-cue-caret is-bar', '#f00', 80);
+      expect(next.update(element, previous)).toBe(true);
+      expect(element.className).toBe('cursor-cue-caret is-bar');
+      expect(element.style.cssText).toContain('left: 50px;');
+      expect(element.style.cssText).toContain('transition: left 80ms ease-out, top 80ms ease-out');
+    });
+
+    it('should jump without a glide duration', () => {
+      const element = fakeElement();
+      const previous = new CaretMarker(doc, box, 'cursor-cue-caret is-bar', '#f00', 80);
+      new CaretMarker(doc, box, 'cursor-cue-caret is-bar', '#f00', 0).update(element, previous);
+      expect(element.style.cssText).toContain('transition: none;');
+    });
+
+    it('should redraw for a new flash so its animation restarts', () => {
+      const previous = new CaretMarker(doc, box, 'cursor-cue-caret is-bar', '#f00', 80, '', 1000);
+      const next = new CaretMarker(doc, box, 'cursor-cue-caret is-bar', '#f00', 80, '', 2000);
+      expect(next.update(fakeElement(), previous)).toBe(false);
+    });
+  });
+});
+
+describe('CaretLayerSwitch', () => {
+  it('should not redraw while the smooth caret is off', () => {
+    const layerSwitch = new CaretLayerSwitch<object>();
+    expect(layerSwitch.needsRedraw({}, false)).toBe(false);
+  });
+
+  it('should redraw while the smooth caret is on', () => {
+    const layerSwitch = new CaretLayerSwitch<object>();
+    const view = {};
+    expect(layerSwitch.needsRedraw(view, true)).toBe(true);
+    expect(layerSwitch.needsRedraw(view, true)).toBe(true);
+  });
+
+  it('should redraw once more after the smooth caret is switched off', () => {
+    const layerSwitch = new CaretLayerSwitch<object>();
+    const view = {};
+    layerSwitch.needsRedraw(view, true);
+    // The last redraw clears the carets
+    expect(layerSwitch.needsRedraw(view, false)).toBe(true);
+    expect(layerSwitch.needsRedraw(view, false)).toBe(false);
+  });
+
+  it('should track each editor separately', () => {
+    const layerSwitch = new CaretLayerSwitch<object>();
+    const first = {};
+    layerSwitch.needsRedraw(first, true);
+    expect(layerSwitch.needsRedraw({}, false)).toBe(false);
+    expect(layerSwitch.needsRedraw(first, false)).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EditorState, EditorSelection, Transaction } from '@codemirror/state';
+import { TriggerClassifier } from '../../src/services/triggerClassifier';
+
+describe('TriggerClassifier Service', () => {
+  let classifier: TriggerClassifier;
+  let state: EditorState;
+
+  beforeEach(() => {
+    classifier = new TriggerClassifier();
+    state = EditorState.create({ doc: 'line one\nline two\nline three' });
+  });
+
+  const select = (anchor: number, userEvent?: string): Transaction =>
+    state.update({ selection: EditorSelection.cursor(anchor), userEvent });
+
+  describe('classifyTransaction', () => {
+    it('should classify pointer selections', () => {
+      expect(classifier.classifyTransaction(select(5, 'select.pointer'))).toBe('pointer');
+    });
+
+    it('should classify typing and deletion', () => {
+      const typed = state.update({ changes: { from: 0, insert: 'a' }, userEvent: 'input.type' });
+      const deleted = state.update({ changes: { from: 0, to: 1 }, userEvent: 'delete.backward' });
+      const pasted = state.update({ changes: { from: 0, insert: 'xyz' }, userEvent: 'input.paste' });
+      expect(classifier.classifyTransaction(typed)).toBe('typing');
+      expect(classifier.classifyTransaction(deleted)).toBe('typing');
+      expect(classifier.classifyTransaction(pasted)).toBe('typing');
+    });
+
+    it('should treat unannotated document changes as typing', () => {
+      const changed = state.update({ changes: { from: 0, insert: 'a' } });
+      expect(classifier.classifyTransaction(changed)).toBe('typing');
+    });
+
+    it('should classify undo and redo', () => {
+      const undo = state.update({ changes: { from: 0, to: 1 }, userEvent: 'undo' });
+      const redo = state.update({ changes: { from: 0, insert: 'l' }, userEvent: 'redo' });
+      expect(classifier.classifyTransaction(undo)).toBe('history');
+      expect(classifier.classifyTransaction(redo)).toBe('history');
+    });
+
+    it('should classify search matches', () => {
+      expect(classifier.classifyTransaction(select(12, 'select.search'))).toBe('search');
+    });
+
+    it('should classify keyboard selection commands', () => {
+      expect(classifier.classifyTransaction(select(20, 'select'))).toBe('keyboard');
+    });
+
+    it('should classify unannotated selection changes as external', () => {
+      expect(classifier.classifyTransaction(select(20))).toBe('external');
+    });
+
+    it('should classify transactions without selection or changes as none', () => {
+      expect(classifier.classifyTransaction(state.update({}))).toBe('none');
+    });
+  });
+
+  describe('classify', () => {
+    it('should return none for no transactions', () => {
+      expect(classifier.classify([])).toBe('none');
+    });
+
+    it('should let pointer win over other intents', () => {
+      expect(classifier.classify([select(20), select(3, 'select.pointer')])).toBe('pointer');
+    });
+
+    it('should let typing win over keyboard selection', () => {
+      const typed = state.update({ changes: { from: 0, insert: 'a' }, userEvent: 'input.type' });
+      expect(classifier.classify([select(20, 'select'), typed])).toBe('typing');
+    });
+  });
+
+  describe('toFlashTrigger', () => {
+    it('should keep clicks and typing quiet', () => {
+      expect(classifier.toFlashTrigger('pointer')).toBeNull();
+      expect(classifier.toFlashTrigger('typing')).toBeNull();
+      expect(classifier.toFlashTrigger('none')).toBeNull();
+    });
+
+    it('should map jumps to typed triggers', () => {
+      expect(classifier.toFlashTrigger('history')).toBe('history-jump');
+      expect(classifier.toFlashTrigger('search')).toBe('search-jump');
+      expect(classifier.toFlashTrigger('keyboard')).toBe('distance-jump');
+      expect(classifier.toFlashTrigger('external')).toBe('distance-jump');
+    });
+  });
+
+  describe('requiresFocus', () => {
+    it('should only apply clicks and typing to the focused editor', () => {
+      expect(classifier.requiresFocus('pointer')).toBe(true);
+      expect(classifier.requiresFocus('typing')).toBe(true);
+    });
+
+    it('should flash a jump dispatched into an unfocused editor', () => {
+      // e.g. the outline pane moving the cursor while it keeps focus
+      const intent = classifier.classify([select(20)]);
+      expect(classifier.requiresFocus(intent)).toBe(false);
+      expect(classifier.toFlashTrigger(intent)).toBe('distance-jump');
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EditorViewRegistry } from '../../src/services/viewRegistry';
+
+describe('EditorViewRegistry Service', () => {
+  let registry: EditorViewRegistry<{ id: string }>;
+  const left = { id: 'left' };
+  const right = { id: 'right' };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    registry = new EditorViewRegistry();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should give each view its own state', () => {
+    const leftState = registry.register(left);
+    const rightState = registry.register(right);
+
+    leftState.flashActive = true;
+    expect(registry.get(left)?.flashActive).toBe(true);
+    expect(registry.get(right)?.flashActive).toBe(false);
+    expect(rightState).not.toBe(leftState);
+  });
+
+  it('should return the existing state when a view registers twice', () => {
+    const first = registry.register(left);
+    first.flashActive = true;
+    expect(registry.register(left)).toBe(first);
+    expect(registry.views()).toEqual([left]);
+  });
+
+  it('should list views in registration order', () => {
+    registry.register(right);
+    registry.register(left);
+    expect(registry.views()).toEqual([right, left]);
+  });
+
+  it('should forget unregistered views and cancel their timers', () => {
+    const callback = vi.fn();
+    const state = registry.register(left);
+    state.resetTimeout = setTimeout(callback, 100);
+
+    registry.unregister(left);
+    vi.advanceTimersByTime(200);
+
+    expect(registry.has(left)).toBe(false);
+    expect(registry.get(left)).toBeUndefined();
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('should ignore unregistering an unknown view', () => {
+    expect(() => registry.unregister(right)).not.toThrow();
+  });
+
+  it('should clear all views', () => {
+    const callback = vi.fn();
+    registry.register(left).resetTimeout = setTimeout(callback, 100);
+    registry.register(right);
+
+    registry.clear();
+    vi.advanceTimersByTime(200);
+
+    expect(registry.views()).toEqual([]);
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
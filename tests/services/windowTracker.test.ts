@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { WindowTracker, type WindowCleanup } from '../../src/services/windowTracker';
+
+describe('WindowTracker Service', () => {
+  const main = { name: 'main' };
+  const popout = { name: 'popout' };
+  let cleanups: Record<string, ReturnType<typeof vi.fn<() => void>>>;
+  let attach: ReturnType<typeof vi.fn<(win: { name: string }) => WindowCleanup>>;
+  let tracker: WindowTracker<{ name: string }>;
+
+  beforeEach(() => {
+    cleanups = { main: vi.fn<() => void>(), popout: vi.fn<() => void>() };
+    attach = vi.fn((win: { name: string }): WindowCleanup => cleanups[win.name]);
+    tracker = new WindowTracker(attach);
+  });
+
+  it('should attach each window once', () => {
+    tracker.track(main);
+    tracker.track(main);
+    tracker.track(popout);
+
+    expect(attach).toHaveBeenCalledTimes(2);
+    expect(tracker.windows()).toEqual([main, popout]);
+  });
+
+  it('should run the cleanup when a window is untracked', () => {
+    tracker.track(popout);
+    tracker.untrack(popout);
+
+    expect(cleanups.popout).toHaveBeenCalledTimes(1);
+    expect(tracker.has(popout)).toBe(false);
+  });
+
+  it('should attach a window again after it was untracked', () => {
+    tracker.track(popout);
+    tracker.untrack(popout);
+    tracker.track(popout);
+
+    expect(attach).toHaveBeenCalledTimes(2);
+    expect(tracker.has(popout)).toBe(true);
+  });
+
+  it('should ignore untracking an unknown window', () => {
+    tracker.untrack(popout);
+    expect(cleanups.popout).not.toHaveBeenCalled();
+  });
+
+  it('should clean up every window on clear', () => {
+    tracker.track(main);
+    tracker.track(popout);
+    tracker.clear();
+
+    expect(cleanups.main).toHaveBeenCalledTimes(1);
+    expect(cleanups.popout).toHaveBeenCalledTimes(1);
+    expect(tracker.windows()).toEqual([]);
+  });
+});
@@ -7,6 +7,7 @@ import {
 	calculateLineHeightFromFontSize,
 	calculateCharacterWidth,
 	calculateHighlightDistance,
+	fontShorthand,
 	calculatePercentage,
 	shouldAllowFlash,
 	calculateScrollDebounceTime,
@@ -14,6 +15,20 @@ import {
 	hslToRgb,
 	adjustColorForThinBar,
 	detectSoftWrapEnd,
+	parseKeyChord,
+	matchesKeyChord,
+	isRepeatMoveKey,
+	isLongRepeatMove,
+	isDistantJump,
+	getOffscreenDirection,
+	pickReadingBlock,
+	nextGraphemeBreak,
+	directionAtOffset,
+	resolveHighlightSide,
+	blinkAnimation,
+	BLINK_RESUME_DELAY,
+	calculateScrollbarMarker,
+	fadeColor,
 	type SoftWrapDetectionParams
 } from '../src/utils';
 
@@ -174,6 +189,27 @@ describe('calculateCharacterWidth', () => {
 	});
 });
 
+describe('fontShorthand', () => {
+	const style = {
+		fontStyle: 'italic',
+		fontWeight: '700',
+		fontSize: '20px',
+		fontFamily: '"Inter", sans-serif'
+	};
+
+	it('should use the computed font shorthand when present', () => {
+		expect(fontShorthand({ ...style, font: 'italic 700 20px / 30px Inter' })).toBe('italic 700 20px / 30px Inter');
+	});
+
+	it('should build the shorthand from longhands otherwise', () => {
+		expect(fontShorthand({ ...style, font: '' })).toBe('italic 700 20px "Inter", sans-serif');
+	});
+
+	it('should default missing style and weight', () => {
+		expect(fontShorthand({ ...style, fontStyle: '', fontWeight: '' })).toBe('normal 400 20px "Inter", sans-serif');
+	});
+});
+
 describe('calculateHighlightDistance', () => {
 	it('should multiply flash size by character width', () => {
 		const charWidth = 9.6;
@@ -242,6 +278,199 @@ describe('shouldAllowFlash', () => {
 		expect(scrollBlocked).toBe(false);
 		expect(viewAllowed).toBe(true);
 	});
+
+	it('should allow jump-key trigger with active click fence', () => {
+		expect(shouldAllowFlash('jump-key', true, false, false)).toBe(true);
+	});
+
+	it('should allow distance-jump trigger with active click fence', () => {
+		expect(shouldAllowFlash('distance-jump', true, false, false)).toBe(true);
+	});
+
+	it('should block jump-key trigger when flash is already active', () => {
+		expect(shouldAllowFlash('jump-key', false, true, false)).toBe(false);
+	});
+});
+
+describe('parseKeyChord', () => {
+	it('should parse a bare key', () => {
+		expect(parseKeyChord('Home')).toEqual({ key: 'Home', ctrl: false, alt: false, shift: false, meta: false });
+	});
+
+	it('should parse modifiers case-insensitively', () => {
+		expect(parseKeyChord('ctrl+SHIFT+End')).toEqual({ key: 'End', ctrl: true, alt: false, shift: true, meta: false });
+	});
+
+	it('should accept Cmd and Option aliases', () => {
+		expect(parseKeyChord('Cmd+Option+G')).toEqual({ key: 'G', ctrl: false, alt: true, shift: false, meta: true });
+	});
+
+	it('should tolerate whitespace around parts', () => {
+		expect(parseKeyChord('  Ctrl + A ')).toEqual({ key: 'A', ctrl: true, alt: false, shift: false, meta: false });
+	});
+
+	it('should parse the plus key itself', () => {
+		expect(parseKeyChord('Ctrl++')?.key).toBe('+');
+	});
+
+	it('should return null for empty or modifier-only chords', () => {
+		expect(parseKeyChord('')).toBeNull();
+		expect(parseKeyChord('Ctrl+Shift')).toBeNull();
+	});
+});
+
+describe('matchesKeyChord', () => {
+	const keyEvent = (key: string, mods: Partial<{ ctrlKey: boolean; altKey: boolean; shiftKey: boolean; metaKey: boolean }> = {}) => ({
+		key, ctrlKey: false, altKey: false, shiftKey: false, metaKey: false, ...mods
+	});
+
+	it('should match key and modifiers', () => {
+		const chord = parseKeyChord('Ctrl+End')!;
+		expect(matchesKeyChord(keyEvent('End', { ctrlKey: true }), chord)).toBe(true);
+	});
+
+	it('should compare letter keys case-insensitively', () => {
+		const chord = parseKeyChord('Ctrl+E')!;
+		expect(matchesKeyChord(keyEvent('e', { ctrlKey: true }), chord)).toBe(true);
+	});
+
+	it('should require modifiers to match exactly', () => {
+		const chord = parseKeyChord('End')!;
+		expect(matchesKeyChord(keyEvent('End', { shiftKey: true }), chord)).toBe(false);
+		expect(matchesKeyChord(keyEvent('End', { ctrlKey: true }), chord)).toBe(false);
+	});
+
+	it('should not match a different key', () => {
+		const chord = parseKeyChord('Home')!;
+		expect(matchesKeyChord(keyEvent('End'), chord)).toBe(false);
+	});
+});
+
+describe('isRepeatMoveKey', () => {
+	it('should accept arrow and page keys', () => {
+		['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'PageUp', 'PageDown'].forEach(key => {
+			expect(isRepeatMoveKey(key)).toBe(true);
+		});
+	});
+
+	it('should reject other keys', () => {
+		expect(isRepeatMoveKey('a')).toBe(false);
+		expect(isRepeatMoveKey('End')).toBe(false);
+	});
+});
+
+describe('isLongRepeatMove', () => {
+	it('should measure vertical keys in lines', () => {
+		expect(isLongRepeatMove('ArrowDown', { line: 0, offset: 0 }, { line: 11, offset: 300 }, 10, 1000)).toBe(true);
+		expect(isLongRepeatMove('PageUp', { line: 40, offset: 900 }, { line: 20, offset: 400 }, 10, 1000)).toBe(true);
+	});
+
+	it('should not flash when lines moved equals the threshold', () => {
+		expect(isLongRepeatMove('ArrowDown', { line: 0, offset: 0 }, { line: 10, offset: 500 }, 10, 40)).toBe(false);
+	});
+
+	it('should measure horizontal keys in characters', () => {
+		expect(isLongRepeatMove('ArrowRight', { line: 0, offset: 0 }, { line: 0, offset: 41 }, 10, 40)).toBe(true);
+		expect(isLongRepeatMove('ArrowLeft', { line: 3, offset: 100 }, { line: 2, offset: 70 }, 10, 40)).toBe(false);
+	});
+
+	it('should ignore non-movement keys', () => {
+		expect(isLongRepeatMove('x', { line: 0, offset: 0 }, { line: 100, offset: 5000 }, 10, 40)).toBe(false);
+	});
+});
+
+describe('isDistantJump', () => {
+	it('should detect a jump by lines in either direction', () => {
+		expect(isDistantJump(11, 0, 10, 400)).toBe(true);
+		expect(isDistantJump(-11, 0, 10, 400)).toBe(true);
+	});
+
+	it('should detect a jump by pixels within a wrapped line', () => {
+		expect(isDistantJump(0, 450, 10, 400)).toBe(true);
+	});
+
+	it('should stay quiet for single-step moves', () => {
+		expect(isDistantJump(1, 24, 10, 400)).toBe(false);
+	});
+
+	it('should require strictly exceeding the thresholds', () => {
+		expect(isDistantJump(10, 400, 10, 400)).toBe(false);
+	});
+});
+
+describe('getOffscreenDirection', () => {
+	it('should return null when the cursor line is inside the visible area', () => {
+		expect(getOffscreenDirection(200, 224, 100, 600)).toBeNull();
+	});
+
+	it('should treat a partly visible line as visible', () => {
+		expect(getOffscreenDirection(90, 114, 100, 600)).toBeNull();
+		expect(getOffscreenDirection(590, 614, 100, 600)).toBeNull();
+	});
+
+	it('should report above when the line ends at or before the top edge', () => {
+		expect(getOffscreenDirection(76, 100, 100, 600)).toBe('above');
+	});
+
+	it('should report below when the line starts at or after the bottom edge', () => {
+		expect(getOffscreenDirection(600, 624, 100, 600)).toBe('below');
+	});
+});
+
+describe('pickReadingBlock', () => {
+	const blocks = [
+		{ top: 0, bottom: 100 },
+		{ top: 100, bottom: 140 },
+		{ top: 140, bottom: 400 },
+		{ top: 400, bottom: 420 }
+	];
+
+	it('should pick the first block reaching into the visible area', () => {
+		expect(pickReadingBlock(blocks, 120, 500)).toBe(1);
+		expect(pickReadingBlock(blocks, 0, 500)).toBe(0);
+	});
+
+	it('should skip a block that ends exactly at the top edge', () => {
+		expect(pickReadingBlock(blocks, 100, 500)).toBe(1);
+	});
+
+	it('should prefer the clicked block while it is visible', () => {
+		expect(pickReadingBlock(blocks, 120, 500, 3)).toBe(3);
+	});
+
+	it('should fall back to the top block once the clicked block is scrolled away', () => {
+		expect(pickReadingBlock(blocks, 150, 380, 0)).toBe(2);
+		expect(pickReadingBlock(blocks, 150, 380, 3)).toBe(2);
+	});
+
+	it('should ignore empty blocks and out-of-range clicks', () => {
+		const withEmpty = [{ top: 50, bottom: 50 }, { top: 50, bottom: 80 }];
+		expect(pickReadingBlock(withEmpty, 0, 100, 7)).toBe(1);
+	});
+
+	it('should return -1 when no block is visible', () => {
+		expect(pickReadingBlock(blocks, 500, 800)).toBe(-1);
+		expect(pickReadingBlock([], 0, 100)).toBe(-1);
+	});
+});
+
+describe('calculateScrollbarMarker', () => {
+	it('should scale the line position onto the track', () => {
+		expect(calculateScrollbarMarker(5000, 24, 10000, 500)).toEqual({ top: 250, height: 3 });
+	});
+
+	it('should scale tall (wrapped) line blocks', () => {
+		expect(calculateScrollbarMarker(0, 400, 1000, 500)).toEqual({ top: 0, height: 200 });
+	});
+
+	it('should keep the marker inside the track at the end of the document', () => {
+		const { top, height } = calculateScrollbarMarker(9990, 10, 10000, 500);
+		expect(top + height).toBeLessThanOrEqual(500);
+	});
+
+	it('should fall back safely for empty geometry', () => {
+		expect(calculateScrollbarMarker(0, 24, 0, 500)).toEqual({ top: 0, height: 3 });
+	});
 });
 
 describe('calculateScrollDebounceTime', () => {
@@ -268,6 +497,21 @@ describe('calculateScrollDebounceTime', () => {
 	});
 });
 
+describe('fadeColor', () => {
+	it('should mix the color with transparent', () => {
+		expect(fadeColor('#6496ff', 0.5)).toBe('color-mix(in srgb, #6496ff 50%, transparent)');
+	});
+
+	it('should accept CSS expressions as colors', () => {
+		expect(fadeColor('var(--interactive-accent)', 0.25)).toBe('color-mix(in srgb, var(--interactive-accent) 25%, transparent)');
+	});
+
+	it('should clamp opacity to 0-1', () => {
+		expect(fadeColor('#000000', 1.5)).toBe('color-mix(in srgb, #000000 100%, transparent)');
+		expect(fadeColor('#000000', -1)).toBe('color-mix(in srgb, #000000 0%, transparent)');
+	});
+});
+
 describe('rgbToHsl', () => {
 	it('should convert pure red correctly', () => {
 		const hsl = rgbToHsl(255, 0, 0);
@@ -425,9 +669,8 @@ describe('adjustColorForThinBar', () => {
 // ---------------------------------------------------------------------------
 // detectSoftWrapEnd tests
 // ---------------------------------------------------------------------------
-// Updated: assoc === -1 is now the primary signal for soft-wrap end detection.
-// The emacs plugin's move-beginning-of-line fix correctly sets assoc = +1 at
-// soft-wrap starts, so assoc = -1 is no longer ambiguous.
+// Geometry decides whether pos is a wrap boundary at all; assoc, the line-end
+// signal and the movement direction decide which side of it the cursor is on.
 
 /** Base params: cursor mid-line on a wrapped line, no special state */
 const baseMidLine: SoftWrapDetectionParams = {
@@ -435,7 +678,8 @@ const baseMidLine: SoftWrapDetectionParams = {
 	isEOL: false,
 	isMidDocLine: true,
 	assoc: 0,
-	endKeyPressedRecently: false,
+	lineEndSignalled: false,
+	movement: 0,
 	coordsLeftTop: undefined,
 	coordsRightTop: undefined,
 	actualLineHeight: 24
@@ -449,28 +693,17 @@ const nonBoundaryCoords = { coordsLeftTop: 100, coordsRightTop: 100 };
 
 describe('detectSoftWrapEnd', () => {
 	// -------------------------------------------------------------------------
-	// Primary signal: assoc === -1 detects soft-wrap end
-	// This works regardless of how the cursor arrived (End key, arrow keys, mouse)
+	// assoc picks the side: -1 is the end of the upper row, +1 the start of the lower
 	// -------------------------------------------------------------------------
 
-	it('assoc=-1 → true (primary signal, no geometry needed)', () => {
-		// assoc=-1 means CM6 biased cursor left — soft-wrap end
+	it('assoc=-1 → true (before geometry is measured)', () => {
 		expect(detectSoftWrapEnd({
 			...baseMidLine,
 			assoc: -1
 		})).toBe(true);
 	});
 
-	it('assoc=-1 with endKeyPressedRecently=false → true (flag no longer required)', () => {
-		// The fix: assoc=-1 alone is now sufficient, regardless of how cursor got there
-		expect(detectSoftWrapEnd({
-			...baseMidLine,
-			assoc: -1,
-			endKeyPressedRecently: false
-		})).toBe(true);
-	});
-
-	it('assoc=-1 with null coords → true (geometry not required)', () => {
+	it('assoc=-1 with null coords → true (geometry not available)', () => {
 		// coordsAtPos returned null; assoc=-1 is sufficient
 		expect(detectSoftWrapEnd({
 			...baseMidLine,
@@ -481,7 +714,6 @@ describe('detectSoftWrapEnd', () => {
 	});
 
 	it('assoc=-1 with soft-wrap geometry → true (geometry confirms)', () => {
-		// Geometry confirms the assoc signal
 		expect(detectSoftWrapEnd({
 			...baseMidLine,
 			assoc: -1,
@@ -489,65 +721,105 @@ describe('detectSoftWrapEnd', () => {
 		})).toBe(true);
 	});
 
+	it('assoc=1 with soft-wrap geometry → false (soft-wrap start)', () => {
+		// Home / move-beginning-of-line put the cursor at the start of the lower row
+		expect(detectSoftWrapEnd({
+			...baseMidLine,
+			assoc: 1,
+			...softWrapCoords
+		})).toBe(false);
+	});
+
+	it('assoc=1 wins over a forward move', () => {
+		expect(detectSoftWrapEnd({
+			...baseMidLine,
+			assoc: 1,
+			movement: 1,
+			...softWrapCoords
+		})).toBe(false);
+	});
+
 	// -------------------------------------------------------------------------
-	// Geometry fallback: can detect soft-wrap end when assoc !== -1
+	// Geometry rules out positions that aren't wrap boundaries
 	// -------------------------------------------------------------------------
 
-	it('assoc=0 with soft-wrap geometry → true (geometry fallback)', () => {
-		// Geometry detects boundary even when assoc doesn't signal it
+	it('assoc=-1 with non-boundary geometry → false (same row on both sides)', () => {
+		// Moving right with arrow keys leaves assoc=-1 everywhere on the row
 		expect(detectSoftWrapEnd({
 			...baseMidLine,
-			assoc: 0,
-			...softWrapCoords
+			assoc: -1,
+			...nonBoundaryCoords
+		})).toBe(false);
+	});
+
+	it('line-end signal with non-boundary geometry → false', () => {
+		expect(detectSoftWrapEnd({
+			...baseMidLine,
+			lineEndSignalled: true,
+			...nonBoundaryCoords
+		})).toBe(false);
+	});
+
+	// -------------------------------------------------------------------------
+	// Line-end signal (api.signalLineEnd) for commands that don't set assoc
+	// -------------------------------------------------------------------------
+
+	it('line-end signal with assoc=0 → true', () => {
+		expect(detectSoftWrapEnd({
+			...baseMidLine,
+			lineEndSignalled: true
 		})).toBe(true);
 	});
 
-	it('assoc=1 with soft-wrap geometry → true (geometry fallback)', () => {
-		// Geometry can detect boundary even with assoc=1
+	it('line-end signal with soft-wrap geometry → true', () => {
 		expect(detectSoftWrapEnd({
 			...baseMidLine,
-			assoc: 1,
+			lineEndSignalled: true,
 			...softWrapCoords
 		})).toBe(true);
 	});
 
 	// -------------------------------------------------------------------------
-	// Non-soft-wrap-end cases: should return false
+	// assoc=0: movement direction picks the side, but only at a measured boundary
 	// -------------------------------------------------------------------------
 
-	it('assoc=1 (rightward bias) without geometry → false', () => {
-		// assoc=1 means cursor biased right — not a soft-wrap end
+	it('assoc=0, forward move onto a boundary → true', () => {
+		// The cursor stays on the row it came along
 		expect(detectSoftWrapEnd({
 			...baseMidLine,
-			assoc: 1
+			movement: 1,
+			...softWrapCoords
+		})).toBe(true);
+	});
+
+	it('assoc=0, backward move onto a boundary → false', () => {
+		expect(detectSoftWrapEnd({
+			...baseMidLine,
+			movement: -1,
+			...softWrapCoords
 		})).toBe(false);
 	});
 
-	it('assoc=0 without geometry → false', () => {
-		// No signal present
+	it('assoc=0, unknown movement at a boundary → false', () => {
+		// CodeMirror draws a bare cursor at the start of the lower row
 		expect(detectSoftWrapEnd({
 			...baseMidLine,
-			assoc: 0
+			...softWrapCoords
 		})).toBe(false);
 	});
 
-	it('assoc=-1 with non-boundary geometry → true (assoc is primary signal)', () => {
-		// With the new implementation, assoc === -1 is the primary signal.
-		// Geometry is only checked when assoc !== -1.
-		// This is correct because assoc = -1 reliably indicates soft-wrap end
-		// (the emacs plugin now sets assoc = +1 at soft-wrap starts).
+	it('assoc=0, forward move without geometry → false', () => {
+		// Not known to be a boundary yet
 		expect(detectSoftWrapEnd({
 			...baseMidLine,
-			assoc: -1,
-			...nonBoundaryCoords
-		})).toBe(true);
+			movement: 1
+		})).toBe(false);
 	});
 
-	it('assoc=0 with non-boundary geometry → false', () => {
-		// Geometry says same row — not a soft-wrap end
+	it('assoc=0, forward move with non-boundary geometry → false', () => {
 		expect(detectSoftWrapEnd({
 			...baseMidLine,
-			assoc: 0,
+			movement: 1,
 			...nonBoundaryCoords
 		})).toBe(false);
 	});
@@ -591,7 +863,7 @@ describe('detectSoftWrapEnd', () => {
 		// threshold = 24 * 0.5 = 12; difference = 12 → not > 12
 		expect(detectSoftWrapEnd({
 			...baseMidLine,
-			assoc: 0, // No assoc signal, rely on geometry
+			assoc: -1,
 			coordsLeftTop: 100,
 			coordsRightTop: 112
 		})).toBe(false);
@@ -601,32 +873,124 @@ describe('detectSoftWrapEnd', () => {
 		// difference = 13 > 12 → true
 		expect(detectSoftWrapEnd({
 			...baseMidLine,
-			assoc: 0, // No assoc signal, rely on geometry
+			assoc: -1,
 			coordsLeftTop: 100,
 			coordsRightTop: 113
 		})).toBe(true);
 	});
+});
 
-	// -------------------------------------------------------------------------
-	// Backward compatibility: endKeyPressedRecently is ignored but kept in interface
-	// -------------------------------------------------------------------------
+describe('nextGraphemeBreak', () => {
+	it('should step over a single ASCII character', () => {
+		expect(nextGraphemeBreak('abc', 0)).toBe(1);
+		expect(nextGraphemeBreak('abc', 2)).toBe(3);
+	});
 
-	it('endKeyPressedRecently=true with assoc=0, no geometry → false (flag ignored)', () => {
-		// The old flag is no longer consulted
-		expect(detectSoftWrapEnd({
-			...baseMidLine,
-			assoc: 0,
-			endKeyPressedRecently: true
-		})).toBe(false);
+	it('should keep surrogate pairs together', () => {
+		expect(nextGraphemeBreak('😀x', 0)).toBe(2);
+		expect(nextGraphemeBreak('a😀', 1)).toBe(3);
 	});
 
-	it('endKeyPressedRecently=true with assoc=0, soft-wrap geometry → true (geometry works)', () => {
-		// Geometry still works regardless of endKeyPressedRecently
-		expect(detectSoftWrapEnd({
-			...baseMidLine,
-			assoc: 0,
-			endKeyPressedRecently: true,
-			...softWrapCoords
-		})).toBe(true);
+	it('should keep ZWJ emoji sequences together', () => {
+		const family = '👨\u200D👩\u200D👧\u200D👦';
+		expect(nextGraphemeBreak(`${family}x`, 0)).toBe(family.length);
+	});
+
+	it('should keep flags, skin tones and keycaps together', () => {
+		expect(nextGraphemeBreak('🇩🇪x', 0)).toBe(4);
+		expect(nextGraphemeBreak('👍🏽x', 0)).toBe(4);
+		expect(nextGraphemeBreak('1\uFE0F\u20E3x', 0)).toBe(3);
+	});
+
+	it('should keep combining marks with their base character', () => {
+		expect(nextGraphemeBreak('e\u0301x', 0)).toBe(2);
+		expect(nextGraphemeBreak('a\u0308\u0323x', 0)).toBe(3);
+	});
+
+	it('should treat a CJK character as one grapheme', () => {
+		expect(nextGraphemeBreak('漢字', 0)).toBe(1);
+		expect(nextGraphemeBreak('漢字', 1)).toBe(2);
+	});
+
+	it('should keep decomposed Hangul syllables together', () => {
+		expect(nextGraphemeBreak('\u1100\u1161x', 0)).toBe(2);
+	});
+
+	it('should keep Devanagari vowel signs with their consonant', () => {
+		expect(nextGraphemeBreak('\u0915\u093Fx', 0)).toBe(2);
+	});
+
+	it('should return the text length at or past the end of the line', () => {
+		expect(nextGraphemeBreak('abc', 3)).toBe(3);
+		expect(nextGraphemeBreak('', 0)).toBe(0);
+	});
+});
+
+describe('directionAtOffset', () => {
+	// "abc " then an Arabic run, then " xyz"
+	const spans = [
+		{ from: 0, to: 4, level: 0 },
+		{ from: 4, to: 8, level: 1 },
+		{ from: 8, to: 12, level: 0 }
+	];
+
+	it('should use the span after the offset for side 1', () => {
+		expect(directionAtOffset(spans, 0, 1, 'ltr')).toBe('ltr');
+		expect(directionAtOffset(spans, 4, 1, 'ltr')).toBe('rtl');
+		expect(directionAtOffset(spans, 8, 1, 'ltr')).toBe('ltr');
+	});
+
+	it('should use the span before the offset for side -1', () => {
+		expect(directionAtOffset(spans, 4, -1, 'ltr')).toBe('ltr');
+		expect(directionAtOffset(spans, 8, -1, 'ltr')).toBe('rtl');
+	});
+
+	it('should treat any odd embedding level as right-to-left', () => {
+		expect(directionAtOffset([{ from: 0, to: 3, level: 2 }], 1, 1, 'rtl')).toBe('ltr');
+		expect(directionAtOffset([{ from: 0, to: 3, level: 3 }], 1, 1, 'ltr')).toBe('rtl');
+	});
+
+	it('should fall back outside the spans', () => {
+		expect(directionAtOffset(spans, 12, 1, 'rtl')).toBe('rtl');
+		expect(directionAtOffset(spans, 0, -1, 'rtl')).toBe('rtl');
+		expect(directionAtOffset([], 0, 1, 'ltr')).toBe('ltr');
+	});
+});
+
+describe('resolveHighlightSide', () => {
+	it('should keep the mode on left-to-right lines', () => {
+		expect(resolveHighlightSide('left', 'ltr')).toBe('left');
+		expect(resolveHighlightSide('right', 'ltr')).toBe('right');
+	});
+
+	it('should swap left and right on right-to-left lines', () => {
+		expect(resolveHighlightSide('left', 'rtl')).toBe('right');
+		expect(resolveHighlightSide('right', 'rtl')).toBe('left');
+	});
+
+	it('should leave other modes alone', () => {
+		expect(resolveHighlightSide('centered', 'rtl')).toBe('centered');
+	});
+});
+
+describe('blinkAnimation', () => {
+	it('should not blink when blinking is off', () => {
+		expect(blinkAnimation('none', 1200, 0)).toBe('');
+		expect(blinkAnimation('classic', 0, 0)).toBe('');
+	});
+
+	it('should switch the cursor on and off for the classic blink', () => {
+		expect(blinkAnimation('classic', 1200, 0))
+			.toBe(`cursor-cue-blink-classic-a 1200ms steps(1) ${BLINK_RESUME_DELAY}ms infinite`);
+	});
+
+	it('should ease the smooth and phase blinks', () => {
+		expect(blinkAnimation('smooth', 1000, 0)).toContain('cursor-cue-blink-smooth-a 1000ms ease-in-out');
+		expect(blinkAnimation('phase', 1000, 0)).toContain('cursor-cue-blink-phase-a 1000ms ease-in-out');
+	});
+
+	it('should restart with the other keyframes when the cursor moves', () => {
+		expect(blinkAnimation('smooth', 1000, 1)).toContain('cursor-cue-blink-smooth-b');
+		expect(blinkAnimation('smooth', 1000, 2)).toContain('cursor-cue-blink-smooth-a');
 	});
 });
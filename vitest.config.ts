@@ -1,6 +1,12 @@
+import { fileURLToPath } from 'node:url';
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+	resolve: {
+		alias: {
+			obsidian: fileURLToPath(new URL('./tests/mocks/obsidian.ts', import.meta.url))
+		}
+	},
 	test: {
 		environment: 'node',
 		globals: true,